@@ -0,0 +1,1169 @@
+/**
+ * A headless, in-memory implementation of the `mod` namespace declared in mod.d.ts.
+ * It lets game-mode logic written against the Portal wrapper run in plain Node, driven by a virtual clock.
+ *
+ * ```typescript
+ * const runtime = new MockRuntime({ declarations: fs.readFileSync('mod.d.ts', 'utf8') });
+ * runtime.install();                    // Makes the runtime available as the global `mod`.
+ * runtime.bind(require('./wrapper'));   // The exported top-level event handlers.
+ *
+ * const player = await runtime.join({ team: 1 });
+ * await runtime.deploy(player);
+ * await runtime.advance(5);             // Resolves every mod.Wait due in the next 5 seconds.
+ * ```
+ *
+ * Natives only change the in-memory state. Natives that the game answers with an event (DeployPlayer, Kill,
+ * DealDamage, RayCast...) queue that event, and it is delivered to the bound handlers on the next flush.
+ */
+
+//#region Values
+export class MockVector {
+    constructor(public readonly x: number, public readonly y: number, public readonly z: number) { }
+
+    public static get Zero(): MockVector { return new MockVector(0, 0, 0); }
+
+    public add(other: MockVector): MockVector {
+        return new MockVector(this.x + other.x, this.y + other.y, this.z + other.z);
+    }
+
+    public subtract(other: MockVector): MockVector {
+        return new MockVector(this.x - other.x, this.y - other.y, this.z - other.z);
+    }
+
+    public scale(factor: number): MockVector {
+        return new MockVector(this.x * factor, this.y * factor, this.z * factor);
+    }
+
+    public dot(other: MockVector): number {
+        return this.x * other.x + this.y * other.y + this.z * other.z;
+    }
+
+    public get length(): number {
+        return Math.sqrt(this.dot(this));
+    }
+
+    public toString(): string {
+        return `(${this.x}, ${this.y}, ${this.z})`;
+    }
+}
+
+export class MockTransform {
+    constructor(public position: MockVector, public rotation: MockVector) { }
+}
+
+export class MockMessage {
+    constructor(public readonly text: any, public readonly args: any[]) { }
+
+    /** The message with `{}` placeholders replaced by its arguments. */
+    public toString(): string {
+        let index = 0;
+        return String(this.text).replace(/\{\}/g, () => String(this.args[index++]));
+    }
+}
+
+export class MockArray {
+    constructor(public readonly values: any[] = []) { }
+}
+
+/** An opaque value such as a DamageType, DeathType or WeaponUnlock. */
+export class MockToken {
+    constructor(public readonly kind: string, public readonly name: string) { }
+
+    public toString(): string {
+        return `${this.kind}(${this.name})`;
+    }
+}
+
+export class MockVariable {
+    constructor(public readonly key: string) { }
+}
+//#endregion
+
+//#region World
+export class MockObject {
+    public removed = false;
+    public position = MockVector.Zero;
+    public rotation = MockVector.Zero;
+    public scale = new MockVector(1, 1, 1);
+
+    constructor(public readonly id: number, public readonly kind: string, public readonly prefab?: string) { }
+
+    public toString(): string {
+        return `${this.kind}#${this.id}`;
+    }
+}
+
+export class MockCapturePoint extends MockObject {
+    public owner: MockTeam;
+    public previousOwner: MockTeam;
+    public progressTeam: MockTeam;
+    /** Capture progress from 0 to 1 towards {@link progressTeam}. */
+    public progress = 0;
+
+    constructor(id: number, neutral: MockTeam, prefab?: string) {
+        super(id, 'CapturePoint', prefab);
+        this.owner = neutral;
+        this.previousOwner = neutral;
+        this.progressTeam = neutral;
+    }
+}
+
+export class MockTeam extends MockObject {
+    public score = 0;
+
+    constructor(public readonly number: number) {
+        super(number, 'Team');
+    }
+
+    public toString(): string {
+        return `Team${this.number}`;
+    }
+}
+
+export class MockSquad {
+    constructor(public readonly team: MockTeam, public readonly number: number) { }
+
+    public toString(): string {
+        return `Squad${this.team.number}.${this.number}`;
+    }
+}
+
+export interface MockPlayerOptions {
+    name?: string;
+    team?: number;
+    squad?: number;
+    ai?: boolean;
+    maxHealth?: number;
+}
+
+export class MockPlayer extends MockObject {
+    public readonly name: string;
+    public readonly isAI: boolean;
+    public team: MockTeam;
+    public squad: MockSquad;
+    public health: number;
+    public maxHealth: number;
+    public isAlive = false;
+    public isDeployed = false;
+    public isManDown = false;
+    public vehicle: MockVehicle | null = null;
+    public deployAllowed = true;
+    public kills = 0;
+    public deaths = 0;
+    public score = 0;
+    /** Values returned for SoldierStateBool members without dedicated fields, e.g. IsCrouching. */
+    public flags: { [member: string]: boolean } = {};
+    /** Values returned for SoldierStateNumber members without dedicated fields, e.g. Speed. */
+    public numbers: { [member: string]: number } = {};
+    /** Values returned for SoldierStateVector members other than GetPosition. */
+    public vectors: { [member: string]: MockVector } = {};
+
+    constructor(id: number, name: string, isAI: boolean, team: MockTeam, squad: MockSquad, maxHealth: number) {
+        super(id, 'Player');
+        this.name = name;
+        this.isAI = isAI;
+        this.team = team;
+        this.squad = squad;
+        this.maxHealth = maxHealth;
+        this.health = maxHealth;
+    }
+
+    public toString(): string {
+        return this.name;
+    }
+}
+
+export class MockWidget {
+    public parent: MockWidget | null = null;
+    public children: MockWidget[] = [];
+    public visible = true;
+    public text: MockMessage | null = null;
+    public buttonEnabled = true;
+    public buttonEvents = new Set<number>();
+    public restrictedTo: MockPlayer | MockTeam | MockSquad | null = null;
+
+    constructor(public name: string, public readonly type: 'Root' | 'Container' | 'Text' | 'Image' | 'Button') { }
+
+    public toString(): string {
+        return `${this.type}(${this.name})`;
+    }
+}
+
+export class MockVehicle extends MockObject {
+    public readonly seats: (MockPlayer | null)[];
+    public velocity = MockVector.Zero;
+    public facing = new MockVector(0, 0, 1);
+
+    /**
+     * @param type A member of mod.VehicleList, e.g. 'Abrams'.
+     */
+    constructor(id: number, public readonly type: string, seatCount: number) {
+        super(id, 'Vehicle');
+        this.seats = new Array(seatCount).fill(null);
+    }
+
+    public get occupants(): MockPlayer[] {
+        return this.seats.filter((occupant): occupant is MockPlayer => occupant !== null);
+    }
+
+    public toString(): string {
+        return `${this.type}#${this.id}`;
+    }
+}
+
+export interface MockScoreboard {
+    type: number | null;
+    header: MockMessage[];
+    columnNames: MockMessage[];
+    columnWidths: number[];
+    sorting: { column: number; reverse: boolean } | null;
+    playerValues: Map<number, number[]>;
+}
+//#endregion
+
+export interface MockCall {
+    /** Orders calls and delivered events relative to each other. */
+    sequence: number;
+    time: number;
+    name: string;
+    args: any[];
+}
+
+export interface MockRuntimeOptions {
+    /** The source of mod.d.ts. Its enums are rebuilt so the wrapper sees the same members as in game. */
+    declarations: string;
+    /** Decides raycast results. Raycasts miss if omitted. */
+    rayCast?: (player: MockPlayer, start: MockVector, stop: MockVector) => { position: MockVector; normal: MockVector } | null;
+    /**
+     * Natives the runtime does not implement that may still be called, as no-ops returning undefined.
+     * Calling any other unimplemented native throws and is listed in {@link MockRuntime.unimplemented}.
+     */
+    stubs?: string[];
+}
+
+export type EventHandlers = { [name: string]: any };
+
+/** Maps RuntimeSpawn prefabs to the object type they create. Anything else becomes a SpatialObject. */
+const prefabKinds: { [prefab: string]: string } = {
+    AI_Spawner: 'Spawner',
+    AI_WaypointPath: 'WaypointPath',
+    AreaTrigger: 'AreaTrigger',
+    CapturePoint: 'CapturePoint',
+    HQ_PlayerSpawner: 'HQ',
+    InteractPoint: 'InteractPoint',
+    LootSpawner: 'LootSpawner',
+    MCOM: 'MCOM',
+    PlayerSpawner: 'SpawnPoint',
+    RingOfFire: 'RingOfFire',
+    Sector: 'Sector',
+    StationaryEmplacementSpawner: 'EmplacementSpawner',
+    VehicleSpawner: 'VehicleSpawner',
+    WorldIcon: 'WorldIcon',
+};
+
+/**
+ * Builds the enums declared in mod.d.ts. Every member gets a value that is unique across all enums,
+ * so overloaded natives such as GetSoldierState can tell which enum they were given.
+ */
+export function parseEnums(declarations: string): Map<string, { [key: string]: string | number }> {
+    const enums = new Map<string, { [key: string]: string | number }>();
+    const pattern = /export enum (\w+)\s*\{([^}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(declarations)) !== null) {
+        const values: { [key: string]: string | number } = {};
+        const members = match[2].split(',').map(member => member.trim()).filter(member => member.length > 0);
+        const base = (enums.size + 1) * 10000;
+        members.forEach((member, index) => {
+            values[member] = base + index;
+            values[base + index] = member;
+        });
+        enums.set(match[1], values);
+    }
+    return enums;
+}
+
+/**
+ * The in-memory game. Create one per test or scenario, {@link install} it and {@link bind} the wrapper's handlers.
+ */
+export class MockRuntime {
+    /** How many microtask turns {@link flush} lets pass so async handlers can progress. */
+    public static microtaskTurns = 50;
+
+    public readonly mod: any;
+    public readonly calls: MockCall[] = [];
+    public readonly errors: string[] = [];
+    /** The unimplemented natives that were called without being stubbed. Not cleared by {@link clearLog}. */
+    public readonly unimplemented: string[] = [];
+    public readonly firedEvents: MockCall[] = [];
+    public readonly players: MockPlayer[] = [];
+    public readonly objects = new Map<number, MockObject>();
+    public readonly teams = new Map<number, MockTeam>();
+    public readonly widgets = new Map<string, MockWidget>();
+    public readonly root = new MockWidget('', 'Root');
+    public readonly scoreboard: MockScoreboard = { type: null, header: [], columnNames: [], columnWidths: [], sorting: null, playerValues: new Map() };
+    public readonly variables = new Map<string, any>();
+    /** Set by EndGameMode with the winning team or player. */
+    public ended: { winner: MockTeam | MockPlayer } | null = null;
+
+    private options: MockRuntimeOptions;
+    private enums: Map<string, { [key: string]: string | number }>;
+    private enumMembers = new Map<number, { enumName: string; member: string }>();
+    private natives: { [name: string]: (...args: any[]) => any };
+    private stubs: Set<string>;
+    private handlers: EventHandlers = {};
+    private squads = new Map<string, MockSquad>();
+    private variableHandles = new Map<string, MockVariable>();
+    private spawnerVehicleTypes = new Map<MockObject, string>();
+    private chases = new Map<string, { from: number; to: number; start: number; duration: number }>();
+    private waits: { time: number; order: number; resolve: () => void }[] = [];
+    private queuedEvents: { name: string; args: any[] }[] = [];
+    private nextObjectId = 100;
+    private nextWaitOrder = 0;
+    private nextSequence = 0;
+    private _time = 0;
+
+    private matchStart = 0;
+    private pausedAt: number | null = null;
+    private pausedTotal = 0;
+    private timeLimit: number | null = null;
+    private timeLimitReached = false;
+
+    constructor(options: MockRuntimeOptions) {
+        this.options = options;
+        this.enums = parseEnums(options.declarations);
+        this.enums.forEach((values, enumName) => {
+            Object.keys(values).forEach(key => {
+                const value = values[key];
+                if (typeof value === 'number') {
+                    this.enumMembers.set(value, { enumName, member: key });
+                }
+            });
+        });
+        this.natives = this.createNatives();
+        this.stubs = new Set(options.stubs ?? []);
+
+        const runtime = this;
+        this.mod = new Proxy({}, {
+            get(_target, name) {
+                if (typeof name !== 'string') {
+                    return undefined;
+                }
+                const enumValues = runtime.enums.get(name);
+                if (enumValues) {
+                    return enumValues;
+                }
+                const native = runtime.natives[name];
+                return (...args: any[]) => {
+                    runtime.calls.push({ sequence: runtime.nextSequence++, time: runtime._time, name, args });
+                    if (native) {
+                        return native(...args);
+                    }
+                    if (runtime.stubs.has(name)) {
+                        return undefined;
+                    }
+                    runtime.unimplemented.push(name);
+                    throw new Error(`mod.${name} is not implemented by MockRuntime. Implement it or list it in the stubs option.`);
+                };
+            },
+        });
+    }
+
+    /** The virtual time in seconds since the runtime was created. */
+    public get time(): number {
+        return this._time;
+    }
+
+    /**
+     * Makes this runtime the global `mod`.
+     */
+    public install(): this {
+        (globalThis as any).mod = this.mod;
+        return this;
+    }
+
+    /**
+     * Sets the top-level event handlers (OnPlayerDied, OngoingPlayer...) that events are delivered to.
+     * @param handlers Usually the exports of wrapper.ts.
+     */
+    public bind(handlers: EventHandlers): this {
+        this.handlers = handlers;
+        return this;
+    }
+
+    /**
+     * Returns an enum member by name, e.g. `runtime.enumValue('Weapons', 'LMG_M250')`.
+     */
+    public enumValue(enumName: string, member: string): number {
+        const value = this.enums.get(enumName)?.[member];
+        if (typeof value !== 'number') {
+            throw new Error(`Unknown enum member ${enumName}.${member}.`);
+        }
+        return value;
+    }
+
+    /**
+     * Returns the enum and member name of a value produced by {@link parseEnums}.
+     */
+    public describeEnum(value: number): string | undefined {
+        const member = this.enumMembers.get(value);
+        return member ? `${member.enumName}.${member.member}` : undefined;
+    }
+
+    /** All recorded calls to one native. */
+    public callsTo(name: string): MockCall[] {
+        return this.calls.filter(call => call.name === name);
+    }
+
+    /**
+     * Forgets the recorded calls, errors and delivered events, e.g. after setting up a test.
+     */
+    public clearLog(): void {
+        this.calls.length = 0;
+        this.errors.length = 0;
+        this.firedEvents.length = 0;
+    }
+
+    public team(number: number): MockTeam {
+        let team = this.teams.get(number);
+        if (!team) {
+            team = new MockTeam(number);
+            this.teams.set(number, team);
+        }
+        return team;
+    }
+
+    public squad(team: MockTeam, number: number): MockSquad {
+        const key = `${team.number}:${number}`;
+        let squad = this.squads.get(key);
+        if (!squad) {
+            squad = new MockSquad(team, number);
+            this.squads.set(key, squad);
+        }
+        return squad;
+    }
+
+    /**
+     * Places a vehicle, as if a vehicle spawner produced it, and raises OnVehicleSpawned.
+     * @param type A member of mod.VehicleList.
+     */
+    public async addVehicle(type: string = 'Quadbike', seatCount: number = 2, position: MockVector = MockVector.Zero): Promise<MockVehicle> {
+        const vehicle = new MockVehicle(this.nextObjectId++, type, seatCount);
+        vehicle.position = position;
+        this.objects.set(vehicle.id, vehicle);
+        await this.fire('OnVehicleSpawned', vehicle);
+        return vehicle;
+    }
+
+    /**
+     * Puts a player in a vehicle seat, as if they got in, and raises the enter events.
+     */
+    public async enterVehicle(player: MockPlayer, vehicle: MockVehicle, seat: number = 0): Promise<void> {
+        this.seatPlayer(player, vehicle, seat);
+        await this.flush();
+    }
+
+    /**
+     * Takes a player out of their vehicle and raises the exit events.
+     */
+    public async exitVehicle(player: MockPlayer): Promise<void> {
+        this.unseatPlayer(player);
+        await this.flush();
+    }
+
+    /**
+     * Destroys a vehicle, ejecting its occupants, and raises OnVehicleDestroyed.
+     */
+    public async destroyVehicle(vehicle: MockVehicle): Promise<void> {
+        vehicle.occupants.forEach(player => this.unseatPlayer(player));
+        this.queue('OnVehicleDestroyed', vehicle);
+        await this.flush();
+        vehicle.removed = true;
+    }
+
+    /**
+     * Places a level object, as if it was part of the map.
+     * @param kind A member of mod.Types, e.g. 'CapturePoint'.
+     */
+    public addObject(kind: string, position: MockVector = MockVector.Zero): MockObject {
+        const object = this.createObject(kind);
+        object.position = position;
+        return object;
+    }
+
+    /** The widget with the given name. */
+    public widget(name: string): MockWidget | undefined {
+        return this.widgets.get(name);
+    }
+
+    //#region Events
+    /**
+     * Delivers an event to the bound handler with that name, then flushes.
+     * @param name The top-level handler, e.g. 'OnPlayerDied'.
+     */
+    public async fire(name: string, ...args: any[]): Promise<void> {
+        this.deliver(name, args);
+        await this.flush();
+    }
+
+    /**
+     * Queues an event that is delivered on the next flush, the way the game raises events after a native call.
+     */
+    public queue(name: string, ...args: any[]): void {
+        this.queuedEvents.push({ name, args });
+    }
+
+    /**
+     * Lets async handlers run and delivers queued events until nothing is left to do.
+     */
+    public async flush(): Promise<void> {
+        for (let delivered = 0; delivered < 10000; delivered++) {
+            for (let i = 0; i < MockRuntime.microtaskTurns; i++) {
+                await Promise.resolve();
+            }
+            const next = this.queuedEvents.shift();
+            if (!next) {
+                return;
+            }
+            this.deliver(next.name, next.args);
+        }
+        throw new Error('MockRuntime: events keep queueing more events.');
+    }
+
+    /**
+     * Advances the virtual clock, resolving every mod.Wait that falls due on the way.
+     * Raises OnTimeLimitReached when the game mode time limit runs out.
+     * @param seconds The time to advance.
+     */
+    public async advance(seconds: number): Promise<void> {
+        const target = this._time + seconds;
+        await this.flush();
+        while (true) {
+            const limitAt = this.timeLimitDeadline();
+            this.waits.sort((a, b) => a.time - b.time || a.order - b.order);
+            const nextWait = this.waits.length > 0 && this.waits[0].time <= target ? this.waits[0] : null;
+
+            if (limitAt !== null && limitAt <= target && (!nextWait || limitAt <= nextWait.time)) {
+                this._time = Math.max(this._time, limitAt);
+                this.timeLimitReached = true;
+                this.deliver('OnTimeLimitReached', []);
+            } else if (nextWait) {
+                this.waits.shift();
+                this._time = Math.max(this._time, nextWait.time);
+                nextWait.resolve();
+            } else {
+                break;
+            }
+            await this.flush();
+        }
+        this._time = target;
+    }
+
+    /**
+     * Adds a player and raises OnPlayerJoinGame.
+     */
+    public async join(options: MockPlayerOptions = {}): Promise<MockPlayer> {
+        const id = this.nextObjectId++;
+        const team = this.team(options.team ?? 1);
+        const player = new MockPlayer(
+            id,
+            options.name ?? `Player${this.players.length + 1}`,
+            options.ai ?? false,
+            team,
+            this.squad(team, options.squad ?? 1),
+            options.maxHealth ?? 100
+        );
+        this.players.push(player);
+        this.objects.set(id, player);
+        await this.fire('OnPlayerJoinGame', player);
+        return player;
+    }
+
+    /**
+     * Removes a player and raises OnPlayerLeaveGame.
+     */
+    public async leave(player: MockPlayer): Promise<void> {
+        if (player.vehicle) {
+            this.unseatPlayer(player);
+            await this.flush();
+        }
+        player.removed = true;
+        player.isAlive = false;
+        this.players.splice(this.players.indexOf(player), 1);
+        await this.fire('OnPlayerLeaveGame', player.id);
+    }
+
+    /**
+     * Brings back a player who left, with the same id, and raises OnPlayerJoinGame.
+     */
+    public async rejoin(player: MockPlayer): Promise<void> {
+        player.removed = false;
+        player.isDeployed = false;
+        this.players.push(player);
+        await this.fire('OnPlayerJoinGame', player);
+    }
+
+    /**
+     * Deploys a player and raises OnPlayerDeployed.
+     */
+    public async deploy(player: MockPlayer): Promise<void> {
+        this.natives.DeployPlayer(player);
+        await this.flush();
+    }
+
+    /**
+     * Damages a player and raises OnPlayerDamaged, followed by the death events if the player runs out of health.
+     */
+    public async damage(victim: MockPlayer, attacker: MockPlayer, amount: number, damageType: string = 'Bullet', weapon: string = 'Weapon'): Promise<void> {
+        victim.health = Math.max(0, victim.health - amount);
+        await this.fire('OnPlayerDamaged', victim, attacker, new MockToken('DamageType', damageType), new MockToken('WeaponUnlock', weapon));
+        if (victim.health <= 0 && victim.isAlive) {
+            await this.kill(victim, attacker, damageType, weapon);
+        }
+    }
+
+    /**
+     * Kills a player and raises OnPlayerDied, plus OnPlayerEarnedKill when the killer is someone else.
+     */
+    public async kill(victim: MockPlayer, killer: MockPlayer = victim, deathType: string = 'Bullet', weapon: string = 'Weapon'): Promise<void> {
+        victim.isAlive = false;
+        victim.health = 0;
+        victim.deaths++;
+        const deathToken = new MockToken('DeathType', deathType);
+        const weaponToken = new MockToken('WeaponUnlock', weapon);
+        this.deliver('OnPlayerDied', [victim, killer, deathToken, weaponToken]);
+        if (killer !== victim) {
+            killer.kills++;
+            this.deliver('OnPlayerEarnedKill', [killer, victim, deathToken, weaponToken]);
+        }
+        await this.flush();
+    }
+
+    /**
+     * Hands a capture point to a team and raises OnCapturePointLost (if it had an owner) and OnCapturePointCaptured.
+     */
+    public async capture(point: MockCapturePoint, team: MockTeam): Promise<void> {
+        const hadOwner = point.owner.number !== 0;
+        point.previousOwner = point.owner;
+        point.owner = team;
+        point.progressTeam = team;
+        point.progress = 1;
+        if (hadOwner) {
+            this.deliver('OnCapturePointLost', [point]);
+        }
+        this.deliver('OnCapturePointCaptured', [point]);
+        await this.flush();
+    }
+    //#endregion
+
+    private createObject(kind: string, prefab?: string): MockObject {
+        const id = this.nextObjectId++;
+        const object = kind === 'CapturePoint' ? new MockCapturePoint(id, this.team(0), prefab) : new MockObject(id, kind, prefab);
+        this.objects.set(id, object);
+        return object;
+    }
+
+    private deliver(name: string, args: any[]): void {
+        this.firedEvents.push({ sequence: this.nextSequence++, time: this._time, name, args });
+        const handler = this.handlers[name];
+        if (typeof handler !== 'function') {
+            return;
+        }
+        try {
+            const result = handler(...args);
+            if (result instanceof Promise) {
+                result.catch(e => this.errors.push(`Unhandled rejection in ${name}: ${e}`));
+            }
+        } catch (e) {
+            this.errors.push(`Error in ${name}: ${e}`);
+        }
+    }
+
+    private wait(seconds: number): Promise<void> {
+        return new Promise(resolve => {
+            this.waits.push({ time: this._time + Math.max(0, seconds), order: this.nextWaitOrder++, resolve });
+        });
+    }
+
+    private matchTimeElapsed(): number {
+        const pausedNow = this.pausedAt !== null ? this._time - this.pausedAt : 0;
+        return this._time - this.matchStart - this.pausedTotal - pausedNow;
+    }
+
+    private timeLimitDeadline(): number | null {
+        if (this.timeLimit === null || this.timeLimitReached || this.pausedAt !== null) {
+            return null;
+        }
+        return this._time + (this.timeLimit - this.matchTimeElapsed());
+    }
+
+    private member(value: number): { enumName: string; member: string } {
+        const member = this.enumMembers.get(value);
+        if (!member) {
+            throw new Error(`MockRuntime: ${value} is not an enum value.`);
+        }
+        return member;
+    }
+
+    private isKind(value: any, kind: string): boolean {
+        switch (kind) {
+            case 'Number': return typeof value === 'number';
+            case 'String': return typeof value === 'string';
+            case 'Boolean': return typeof value === 'boolean';
+            case 'Vector': return value instanceof MockVector;
+            case 'Array': return value instanceof MockArray;
+            case 'Message': return value instanceof MockMessage;
+            case 'Squad': return value instanceof MockSquad;
+            case 'UIWidget': return value instanceof MockWidget;
+            case 'Variable': return value instanceof MockVariable;
+            case 'Transform': return value instanceof MockTransform;
+        }
+        if (value instanceof MockObject) {
+            return value.kind === kind;
+        }
+        return value instanceof MockToken && value.kind === kind;
+    }
+
+    private objectOfKind(kind: string, id: number): MockObject | undefined {
+        const object = this.objects.get(id);
+        return object && object.kind === kind && !object.removed ? object : undefined;
+    }
+
+    private soldierState(player: MockPlayer, state: number): any {
+        const { enumName, member } = this.member(state);
+        if (enumName === 'SoldierStateBool') {
+            switch (member) {
+                case 'IsAISoldier': return player.isAI;
+                case 'IsAlive': return player.isAlive;
+                case 'IsDead': return player.isDeployed && !player.isAlive;
+                case 'IsManDown': return player.isManDown;
+                case 'IsInVehicle': return player.vehicle !== null;
+                default: return player.flags[member] ?? false;
+            }
+        }
+        if (enumName === 'SoldierStateNumber') {
+            switch (member) {
+                case 'CurrentHealth': return player.health;
+                case 'MaxHealth': return player.maxHealth;
+                case 'NormalizedHealth': return player.maxHealth > 0 ? player.health / player.maxHealth : 0;
+                default: return player.numbers[member] ?? 0;
+            }
+        }
+        if (member === 'GetPosition') {
+            return player.position;
+        }
+        return player.vectors[member] ?? MockVector.Zero;
+    }
+
+    private variableValue(key: string): any {
+        const chase = this.chases.get(key);
+        if (chase) {
+            const progress = chase.duration <= 0 ? 1 : Math.min(1, (this._time - chase.start) / chase.duration);
+            if (progress >= 1) {
+                this.chases.delete(key);
+                this.variables.set(key, chase.to);
+                return chase.to;
+            }
+            return chase.from + (chase.to - chase.from) * progress;
+        }
+        return this.variables.has(key) ? this.variables.get(key) : 0;
+    }
+
+    private closestPlayer(position: MockVector, team: MockTeam | undefined, farthest: boolean): MockPlayer | undefined {
+        let best: MockPlayer | undefined;
+        let bestDistance = farthest ? -1 : Infinity;
+        for (const player of this.players) {
+            if (!player.isAlive || (team && player.team !== team)) {
+                continue;
+            }
+            const distance = player.position.subtract(position).length;
+            if (farthest ? distance > bestDistance : distance < bestDistance) {
+                best = player;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    private addWidget(type: 'Container' | 'Text' | 'Image' | 'Button', args: any[]): void {
+        const widget = new MockWidget(args[0], type);
+        const parent = args[4] instanceof MockWidget ? args[4] : this.root;
+        widget.parent = parent;
+        parent.children.push(widget);
+        if (typeof args[5] === 'boolean') {
+            widget.visible = args[5];
+        }
+        if (type === 'Text') {
+            widget.text = args.find(arg => arg instanceof MockMessage) ?? null;
+        }
+        if (type === 'Button' && typeof args[10] === 'boolean') {
+            widget.buttonEnabled = args[10];
+        }
+        const restrict = args[args.length - 1];
+        if (args.length > 5 && (restrict instanceof MockPlayer || restrict instanceof MockTeam || restrict instanceof MockSquad)) {
+            widget.restrictedTo = restrict;
+        }
+        this.widgets.set(widget.name, widget);
+    }
+
+    private removeWidget(widget: MockWidget): void {
+        widget.children.slice().forEach(child => this.removeWidget(child));
+        if (widget.parent) {
+            widget.parent.children.splice(widget.parent.children.indexOf(widget), 1);
+            widget.parent = null;
+        }
+        if (this.widgets.get(widget.name) === widget) {
+            this.widgets.delete(widget.name);
+        }
+    }
+
+    private seatPlayer(player: MockPlayer, vehicle: MockVehicle, seat: number): void {
+        if (seat < 0 || seat >= vehicle.seats.length || vehicle.seats[seat]) {
+            return;
+        }
+        const switchingSeat = player.vehicle === vehicle;
+        if (player.vehicle) {
+            const previousSeat = player.vehicle.seats.indexOf(player);
+            player.vehicle.seats[previousSeat] = null;
+            this.queue('OnPlayerExitVehicleSeat', player, player.vehicle, previousSeat);
+            if (!switchingSeat) {
+                this.queue('OnPlayerExitVehicle', player, player.vehicle);
+            }
+        }
+        player.vehicle = vehicle;
+        vehicle.seats[seat] = player;
+        if (!switchingSeat) {
+            this.queue('OnPlayerEnterVehicle', player, vehicle);
+        }
+        this.queue('OnPlayerEnterVehicleSeat', player, vehicle, seat);
+    }
+
+    private unseatPlayer(player: MockPlayer): void {
+        const vehicle = player.vehicle;
+        if (!vehicle) {
+            return;
+        }
+        const seat = vehicle.seats.indexOf(player);
+        vehicle.seats[seat] = null;
+        player.vehicle = null;
+        this.queue('OnPlayerExitVehicleSeat', player, vehicle, seat);
+        this.queue('OnPlayerExitVehicle', player, vehicle);
+    }
+
+    private setTeam(player: MockPlayer, team: MockTeam): void {
+        if (player.team === team) {
+            return;
+        }
+        player.team = team;
+        player.squad = this.squad(team, player.squad.number);
+        this.queue('OnPlayerSwitchTeam', player, team);
+    }
+
+    private createNatives(): { [name: string]: (...args: any[]) => any } {
+        const vector = (value: any): MockVector => value instanceof MockVector ? value : new MockVector(value, value, value);
+        const arithmetic = (a: any, b: any, op: (x: number, y: number) => number): any => {
+            if (typeof a === 'number' && typeof b === 'number') {
+                return op(a, b);
+            }
+            const va = vector(a);
+            const vb = vector(b);
+            return new MockVector(op(va.x, vb.x), op(va.y, vb.y), op(va.z, vb.z));
+        };
+        const kindGetter = (kind: string) => (id: number) => this.objectOfKind(kind, id);
+
+        return {
+            // Flow
+            Wait: (seconds: number) => this.wait(seconds),
+            SendErrorReport: (message: MockMessage) => { this.errors.push(String(message)); },
+            Message: (text: any, ...args: any[]) => new MockMessage(text, args),
+
+            // Values
+            CreateVector: (x: number, y: number, z: number) => new MockVector(x, y, z),
+            XComponentOf: (v: MockVector) => v.x,
+            YComponentOf: (v: MockVector) => v.y,
+            ZComponentOf: (v: MockVector) => v.z,
+            Add: (a: any, b: any) => arithmetic(a, b, (x, y) => x + y),
+            Subtract: (a: any, b: any) => arithmetic(a, b, (x, y) => x - y),
+            Multiply: (a: any, b: any) => arithmetic(a, b, (x, y) => x * y),
+            Divide: (a: any, b: any) => arithmetic(a, b, (x, y) => x / y),
+            DotProduct: (a: MockVector, b: MockVector) => a.dot(b),
+            CrossProduct: (a: MockVector, b: MockVector) => new MockVector(a.y * b.z - a.z * b.y, a.z * b.x - a.x * b.z, a.x * b.y - a.y * b.x),
+            DistanceBetween: (a: MockVector, b: MockVector) => a.subtract(b).length,
+            Normalize: (v: MockVector) => v.length === 0 ? v : v.scale(1 / v.length),
+            CreateTransform: (position: MockVector, rotation: MockVector) => new MockTransform(position, rotation),
+            EmptyArray: () => new MockArray(),
+            AppendToArray: (array: MockArray, value: any) => { array.values.push(value); return array; },
+            CountOf: (array: MockArray) => array.values.length,
+            ValueInArray: (array: MockArray, index: number) => array.values[index],
+            IsType: (value: any, type: number) => this.isKind(value, this.member(type).member),
+
+            // Objects
+            GetObjId: (object: any) => object instanceof MockObject && !object.removed ? object.id : -1,
+            GetObjectPosition: (object: MockObject) => object.position,
+            GetObjectRotation: (object: MockObject) => object.rotation,
+            GetObjectTransform: (object: MockObject) => new MockTransform(object.position, object.rotation),
+            SetObjectTransform: (object: MockObject, transform: MockTransform) => {
+                object.position = transform.position;
+                object.rotation = transform.rotation;
+            },
+            MoveObject: (object: MockObject, delta: MockVector, rotationDelta?: MockVector) => {
+                object.position = object.position.add(delta);
+                if (rotationDelta) {
+                    object.rotation = object.rotation.add(rotationDelta);
+                }
+            },
+            RotateObject: (object: MockObject, delta: MockVector) => { object.rotation = object.rotation.add(delta); },
+            SpawnObject: (prefab: number, position: MockVector, rotation?: MockVector, scale?: MockVector) => {
+                const name = this.member(prefab).member;
+                const kind = prefabKinds[name] ?? (name.startsWith('SFX_') ? 'SFX' : name.startsWith('FX_') ? 'VFX' : 'SpatialObject');
+                const object = this.createObject(kind, name);
+                object.position = position;
+                object.rotation = rotation ?? MockVector.Zero;
+                object.scale = scale ?? object.scale;
+                return object;
+            },
+            UnspawnObject: (object: MockObject) => { object.removed = true; },
+            GetCaptureProgress: (point: MockCapturePoint) => point.progress,
+            GetCurrentOwnerTeam: (point: MockCapturePoint) => point.owner,
+            GetOwnerProgressTeam: (point: MockCapturePoint) => point.progressTeam,
+            GetPreviousOwnerTeam: (point: MockCapturePoint) => point.previousOwner,
+            SetCapturePointOwner: (point: MockCapturePoint, team: MockTeam) => {
+                point.previousOwner = point.owner;
+                point.owner = team;
+            },
+            AllVehicles: () => new MockArray([...this.objects.values()].filter(object => object instanceof MockVehicle && !object.removed)),
+            CompareVehicleName: (vehicle: MockVehicle, type: number) => this.member(type).member === vehicle.type,
+            GetVehicleFromPlayer: (player: MockPlayer) => player.vehicle ?? undefined,
+            GetVehicleSeatCount: (vehicle: MockVehicle) => vehicle.seats.length,
+            GetVehicleState: (vehicle: MockVehicle, state: number) => {
+                switch (this.member(state).member) {
+                    case 'LinearVelocity': return vehicle.velocity;
+                    case 'FacingDirection': return vehicle.facing;
+                    default: return vehicle.position;
+                }
+            },
+            GetVehicleTeam: (vehicle: MockVehicle) => vehicle.occupants[0]?.team ?? this.team(0),
+            IsVehicleOccupied: (vehicle: MockVehicle) => vehicle.occupants.length > 0,
+            IsVehicleSeatOccupied: (vehicle: MockVehicle, seat: number) => !!vehicle.seats[seat],
+            GetAllPlayersInVehicle: (vehicle: MockVehicle) => new MockArray(vehicle.occupants),
+            GetPlayerFromVehicleSeat: (vehicle: MockVehicle, seat: number) => vehicle.seats[seat] ?? undefined,
+            GetPlayerVehicleSeat: (player: MockPlayer) => player.vehicle ? player.vehicle.seats.indexOf(player) : -1,
+            ForcePlayerToSeat: (player: MockPlayer, vehicle: MockVehicle, seat: number) => this.seatPlayer(player, vehicle, seat),
+            ForcePlayerExitVehicle: (target: MockPlayer | MockVehicle, vehicle?: MockVehicle) => {
+                if (target instanceof MockVehicle) {
+                    target.occupants.forEach(player => this.unseatPlayer(player));
+                } else if (!vehicle || target.vehicle === vehicle) {
+                    this.unseatPlayer(target);
+                }
+            },
+            SetVehicleSpawnerVehicleType: (spawner: MockObject, type: number) => {
+                this.spawnerVehicleTypes.set(spawner, this.member(type).member);
+            },
+            ForceVehicleSpawnerSpawn: (spawner: MockObject) => {
+                const vehicle = new MockVehicle(this.nextObjectId++, this.spawnerVehicleTypes.get(spawner) ?? 'Quadbike', 2);
+                vehicle.position = spawner.position;
+                this.objects.set(vehicle.id, vehicle);
+                this.queue('OnVehicleSpawned', vehicle);
+            },
+            GetAreaTrigger: kindGetter('AreaTrigger'),
+            GetCapturePoint: kindGetter('CapturePoint'),
+            GetEmplacementSpawner: kindGetter('EmplacementSpawner'),
+            GetHQ: kindGetter('HQ'),
+            GetInteractPoint: kindGetter('InteractPoint'),
+            GetLootSpawner: kindGetter('LootSpawner'),
+            GetMCOM: kindGetter('MCOM'),
+            GetRingOfFire: kindGetter('RingOfFire'),
+            GetScreenEffect: kindGetter('ScreenEffect'),
+            GetSector: kindGetter('Sector'),
+            GetSFX: kindGetter('SFX'),
+            GetSpatialObject: kindGetter('SpatialObject'),
+            GetSpawner: kindGetter('Spawner'),
+            GetSpawnPoint: kindGetter('SpawnPoint'),
+            GetVehicleSpawner: kindGetter('VehicleSpawner'),
+            GetVFX: kindGetter('VFX'),
+            GetWaypointPath: kindGetter('WaypointPath'),
+            GetWorldIcon: kindGetter('WorldIcon'),
+
+            // Players
+            AllPlayers: () => new MockArray(this.players.slice()),
+            IsPlayerValid: (player: any) => player instanceof MockPlayer && this.players.includes(player),
+            GetSoldierState: (player: MockPlayer, state: number) => this.soldierState(player, state),
+            GetTeam: (target: any) => typeof target === 'number' ? this.team(target) : (target as MockPlayer).team,
+            GetSquad: (target: any, squadNumber?: number) => typeof target === 'number'
+                ? this.squad(this.team(target), squadNumber!)
+                : (target as MockPlayer).squad,
+            SetTeam: (player: MockPlayer, team: MockTeam) => this.setTeam(player, team),
+            SwitchTeams: (teamA: MockTeam, teamB: MockTeam) => {
+                const playersA = this.players.filter(player => player.team === teamA);
+                const playersB = this.players.filter(player => player.team === teamB);
+                playersA.forEach(player => this.setTeam(player, teamB));
+                playersB.forEach(player => this.setTeam(player, teamA));
+            },
+            IsFaction: () => false,
+            Kill: (player: MockPlayer) => {
+                if (player.isAlive) {
+                    player.isAlive = false;
+                    player.health = 0;
+                    player.deaths++;
+                    this.queue('OnPlayerDied', player, player, new MockToken('DeathType', 'Scripted'), new MockToken('WeaponUnlock', 'None'));
+                }
+            },
+            Heal: (player: MockPlayer, amount: number) => { player.health = Math.min(player.maxHealth, player.health + amount); },
+            DealDamage: (player: MockPlayer, amount: number) => {
+                if (!player.isAlive) {
+                    return;
+                }
+                player.health = Math.max(0, player.health - amount);
+                this.queue('OnPlayerDamaged', player, player, new MockToken('DamageType', 'Scripted'), new MockToken('WeaponUnlock', 'None'));
+                if (player.health <= 0) {
+                    this.natives.Kill(player);
+                }
+            },
+            SetPlayerMaxHealth: (player: MockPlayer, value: number) => {
+                player.maxHealth = value;
+                player.health = Math.min(player.health, value);
+            },
+            ForceRevive: (player: MockPlayer) => {
+                player.isManDown = false;
+                player.isAlive = true;
+            },
+            ForceManDown: (player: MockPlayer) => { player.isManDown = true; },
+            Teleport: (player: MockPlayer, position: MockVector) => { player.position = position; },
+            CreateNewWeaponPackage: () => new MockToken('WeaponPackage', 'Custom'),
+            DeployPlayer: (player: MockPlayer) => {
+                if (player.isDeployed || !player.deployAllowed) {
+                    return;
+                }
+                player.isDeployed = true;
+                player.isAlive = true;
+                player.isManDown = false;
+                player.health = player.maxHealth;
+                this.queue('OnPlayerDeployed', player);
+            },
+            UndeployPlayer: (player: MockPlayer) => {
+                if (!player.isDeployed) {
+                    return;
+                }
+                player.isDeployed = false;
+                player.isAlive = false;
+                this.queue('OnPlayerUndeploy', player);
+            },
+            DeployAllPlayers: () => this.players.forEach(player => this.natives.DeployPlayer(player)),
+            UndeployAllPlayers: () => this.players.forEach(player => this.natives.UndeployPlayer(player)),
+            EnablePlayerDeploy: (player: MockPlayer, enabled: boolean) => { player.deployAllowed = enabled; },
+            EnableAllPlayerDeploy: (enabled: boolean) => this.players.forEach(player => player.deployAllowed = enabled),
+            GetPlayerKills: (player: MockPlayer) => player.kills,
+            GetPlayerDeaths: (player: MockPlayer) => player.deaths,
+            ClosestPlayerTo: (position: MockVector, team?: MockTeam) => this.closestPlayer(position, team, false),
+            FarthestPlayerFrom: (position: MockVector, team?: MockTeam) => this.closestPlayer(position, team, true),
+            RayCast: (player: MockPlayer, start: MockVector, stop: MockVector) => {
+                const hit = this.options.rayCast?.(player, start, stop) ?? null;
+                if (hit) {
+                    this.queue('OnRayCastHit', player, hit.position, hit.normal);
+                } else {
+                    this.queue('OnRayCastMissed', player);
+                }
+            },
+
+            // Game mode
+            GetMatchTimeElapsed: () => this.matchTimeElapsed(),
+            GetMatchTimeRemaining: () => this.timeLimit === null ? 0 : Math.max(0, this.timeLimit - this.matchTimeElapsed()),
+            SetGameModeTimeLimit: (seconds: number) => {
+                this.timeLimit = seconds;
+                this.timeLimitReached = false;
+            },
+            ResetGameModeTime: () => {
+                this.matchStart = this._time;
+                this.pausedTotal = 0;
+                this.pausedAt = this.pausedAt !== null ? this._time : null;
+                this.timeLimitReached = false;
+            },
+            PauseGameModeTime: (paused: boolean) => {
+                if (paused && this.pausedAt === null) {
+                    this.pausedAt = this._time;
+                } else if (!paused && this.pausedAt !== null) {
+                    this.pausedTotal += this._time - this.pausedAt;
+                    this.pausedAt = null;
+                }
+            },
+            GetGameModeScore: (target: MockPlayer | MockTeam) => target.score,
+            SetGameModeScore: (target: MockPlayer | MockTeam, score: number) => { target.score = score; },
+            EndGameMode: (winner: MockTeam | MockPlayer) => {
+                this.ended = { winner };
+                this.queue('OnGameModeEnding');
+            },
+
+            // Variables
+            GlobalVariable: (index: number) => this.variableHandle(`global:${index}`),
+            ObjectVariable: (owner: MockObject, index: number) => this.variableHandle(`${owner.id}:${index}`),
+            GetVariable: (variable: MockVariable) => this.variableValue(variable.key),
+            SetVariable: (variable: MockVariable, value: any) => { this.variables.set(variable.key, value); },
+            SetVariableAtIndex: (variable: MockVariable, index: number, value: any) => {
+                let array = this.variables.get(variable.key);
+                if (!(array instanceof MockArray)) {
+                    array = new MockArray();
+                    this.variables.set(variable.key, array);
+                }
+                array.values[index] = value;
+            },
+            ChaseVariableOverTime: (variable: MockVariable, limit: number, duration: number) => {
+                this.chases.set(variable.key, { from: this.variableValue(variable.key), to: limit, start: this._time, duration });
+            },
+            ChaseVariableAtRate: (variable: MockVariable, limit: number, rate: number) => {
+                const from = this.variableValue(variable.key);
+                const duration = rate === 0 ? 0 : Math.abs(limit - from) / Math.abs(rate);
+                this.chases.set(variable.key, { from, to: limit, start: this._time, duration });
+            },
+            StopChasingVariable: (variable: MockVariable) => {
+                const value = this.variableValue(variable.key);
+                this.chases.delete(variable.key);
+                this.variables.set(variable.key, value);
+            },
+
+            // UI
+            GetUIRoot: () => this.root,
+            AddUIContainer: (...args: any[]) => this.addWidget('Container', args),
+            AddUIText: (...args: any[]) => this.addWidget('Text', args),
+            AddUIImage: (...args: any[]) => this.addWidget('Image', args),
+            AddUIButton: (...args: any[]) => this.addWidget('Button', args),
+            FindUIWidgetWithName: (name: string) => this.widgets.get(name),
+            GetUIWidgetName: (widget: MockWidget) => widget.name,
+            SetUIWidgetName: (widget: MockWidget, name: string) => {
+                if (this.widgets.get(widget.name) === widget) {
+                    this.widgets.delete(widget.name);
+                }
+                widget.name = name;
+                this.widgets.set(name, widget);
+            },
+            SetUIWidgetVisible: (widget: MockWidget, visible: boolean) => { widget.visible = visible; },
+            GetUIWidgetVisible: (widget: MockWidget) => widget.visible,
+            DeleteUIWidget: (widget: MockWidget) => this.removeWidget(widget),
+            SetUITextLabel: (widget: MockWidget, message: MockMessage) => { widget.text = message; },
+            SetUIButtonEnabled: (widget: MockWidget, enabled: boolean) => { widget.buttonEnabled = enabled; },
+            GetUIButtonEnabled: (widget: MockWidget) => widget.buttonEnabled,
+            EnableUIButtonEvent: (widget: MockWidget, event: number, enabled: boolean) => {
+                if (enabled) {
+                    widget.buttonEvents.add(event);
+                } else {
+                    widget.buttonEvents.delete(event);
+                }
+            },
+
+            // Scoreboard
+            SetScoreboardType: (type: number) => { this.scoreboard.type = type; },
+            SetScoreboardHeader: (...header: MockMessage[]) => { this.scoreboard.header = header; },
+            SetScoreboardColumnNames: (...names: MockMessage[]) => { this.scoreboard.columnNames = names; },
+            SetScoreboardColumnWidths: (...widths: number[]) => { this.scoreboard.columnWidths = widths; },
+            SetScoreboardSorting: (column: number, reverse: boolean) => { this.scoreboard.sorting = { column, reverse }; },
+            SetScoreboardPlayerValues: (player: MockPlayer, ...values: number[]) => { this.scoreboard.playerValues.set(player.id, values); },
+        };
+    }
+
+    private variableHandle(key: string): MockVariable {
+        let handle = this.variableHandles.get(key);
+        if (!handle) {
+            handle = new MockVariable(key);
+            this.variableHandles.set(key, handle);
+        }
+        return handle;
+    }
+}
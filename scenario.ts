@@ -0,0 +1,182 @@
+import { MockCall, MockMessage, MockObject, MockPlayer, MockRuntime, MockSquad, MockVector, MockWidget } from './modmock';
+
+export interface ScenarioOptions {
+    /** How many times per second the Ongoing* handlers are called. Defaults to 30, like the game. */
+    tickRate?: number;
+}
+
+export interface TraceOptions {
+    /** Includes the Ongoing* events. */
+    ongoing?: boolean;
+    /** Includes read-only natives (Get*, Is*, Wait, Message, vector and array helpers). */
+    queries?: boolean;
+}
+
+export type ScenarioStep = (scenario: Scenario) => void | Promise<void>;
+
+const queryNatives = /^(Get|Is|Wait$|Message$|CreateVector$|[XYZ]ComponentOf$|AllPlayers$|CountOf$|ValueInArray$|EmptyArray$|AppendToArray$|FindUIWidgetWithName$)/;
+
+/**
+ * Replays a whole match offline on top of a {@link MockRuntime}: scheduled steps inject events at given times,
+ * the Ongoing* handlers are called at a fixed tick rate, and every native call ends up in a readable trace.
+ *
+ * ```typescript
+ * const scenario = new Scenario(runtime);
+ * const pointA = runtime.addObject('CapturePoint') as MockCapturePoint;
+ * scenario
+ *     .at(0, s => s.joinPlayers(8))
+ *     .at(30, () => runtime.capture(pointA, runtime.team(1)))
+ *     .at(45, s => runtime.kill(s.player(3), s.player(5)));
+ * await scenario.run(60);
+ * console.log(scenario.trace());
+ * ```
+ */
+export class Scenario {
+    public readonly runtime: MockRuntime;
+    public readonly tickRate: number;
+    /** The players added through {@link joinPlayers}, in join order. */
+    public readonly joined: MockPlayer[] = [];
+
+    private steps: { time: number; order: number; step: ScenarioStep }[] = [];
+    private nextStepOrder = 0;
+    private ticks = 0;
+
+    constructor(runtime: MockRuntime, options: ScenarioOptions = {}) {
+        this.runtime = runtime;
+        this.tickRate = options.tickRate ?? 30;
+    }
+
+    /** The current virtual time in seconds. */
+    public get time(): number {
+        return this.runtime.time;
+    }
+
+    /**
+     * Schedules a step. Steps due at the same time run in the order they were added.
+     * @param seconds The virtual time to run the step at.
+     * @param step The step, which may inject events through the runtime.
+     */
+    public at(seconds: number, step: ScenarioStep): this {
+        this.steps.push({ time: seconds, order: this.nextStepOrder++, step });
+        this.steps.sort((a, b) => a.time - b.time || a.order - b.order);
+        return this;
+    }
+
+    /**
+     * Runs scheduled steps and ticks until the given virtual time.
+     * @param until The virtual time to stop at.
+     */
+    public async run(until: number): Promise<void> {
+        while (true) {
+            const nextStep = this.steps.length > 0 ? this.steps[0].time : Infinity;
+            // Computed from the tick count, so ticks do not drift from whole seconds.
+            const nextTick = this.ticks / this.tickRate;
+            const next = Math.min(nextStep, nextTick);
+            if (next > until) {
+                break;
+            }
+            await this.runtime.advance(Math.max(0, next - this.runtime.time));
+            if (nextStep <= nextTick) {
+                await this.steps.shift()!.step(this);
+                await this.runtime.flush();
+            } else {
+                await this.tick();
+                this.ticks++;
+            }
+        }
+        await this.runtime.advance(Math.max(0, until - this.runtime.time));
+    }
+
+    /**
+     * Continues the scenario for the given number of seconds.
+     */
+    public async advance(seconds: number): Promise<void> {
+        await this.run(this.runtime.time + seconds);
+    }
+
+    /**
+     * Calls every Ongoing* handler once: the global ones, then each team, player and level object.
+     */
+    public async tick(): Promise<void> {
+        this.runtime.queue('Ongoing');
+        this.runtime.queue('OngoingGlobal');
+        this.runtime.teams.forEach(team => {
+            if (team.number !== 0) {
+                this.runtime.queue('OngoingTeam', team);
+            }
+        });
+        this.runtime.players.forEach(player => this.runtime.queue('OngoingPlayer', player));
+        this.runtime.objects.forEach(object => {
+            if (object.kind !== 'Player' && !object.removed) {
+                this.runtime.queue(`Ongoing${object.kind}`, object);
+            }
+        });
+        await this.runtime.flush();
+    }
+
+    /**
+     * Adds players, spreading them over the teams in turn.
+     * @param count The number of players to add.
+     * @param teams The number of teams.
+     */
+    public async joinPlayers(count: number, teams: number = 2): Promise<MockPlayer[]> {
+        const players: MockPlayer[] = [];
+        for (let i = 0; i < count; i++) {
+            const player = await this.runtime.join({ name: `Player${this.joined.length + 1}`, team: (this.joined.length % teams) + 1 });
+            this.joined.push(player);
+            players.push(player);
+        }
+        return players;
+    }
+
+    /**
+     * Returns a player added through {@link joinPlayers}.
+     * @param number The 1-based join order, so `player(3)` is the third player to join.
+     */
+    public player(number: number): MockPlayer {
+        const player = this.joined[number - 1];
+        if (!player) {
+            throw new Error(`Scenario: no player ${number}, only ${this.joined.length} joined.`);
+        }
+        return player;
+    }
+
+    /**
+     * Formats the delivered events and native calls in the order they happened, one per line.
+     */
+    public trace(options: TraceOptions = {}): string {
+        const entries: { kind: 'event' | 'call'; entry: MockCall }[] = [];
+        this.runtime.firedEvents.forEach(entry => {
+            if (options.ongoing || !entry.name.startsWith('Ongoing')) {
+                entries.push({ kind: 'event', entry });
+            }
+        });
+        this.runtime.calls.forEach(entry => {
+            if (options.queries || !queryNatives.test(entry.name)) {
+                entries.push({ kind: 'call', entry });
+            }
+        });
+        entries.sort((a, b) => a.entry.sequence - b.entry.sequence);
+        return entries.map(({ kind, entry }) => {
+            const time = `[${entry.time.toFixed(2).padStart(7)}s]`;
+            const args = entry.args.map(arg => this.format(arg)).join(', ');
+            return kind === 'event' ? `${time} ${entry.name}(${args})` : `${time}   mod.${entry.name}(${args})`;
+        }).join('\n');
+    }
+
+    private format(value: any): string {
+        if (typeof value === 'number') {
+            return this.runtime.describeEnum(value) ?? String(Math.round(value * 1000) / 1000);
+        }
+        if (typeof value === 'string') {
+            return JSON.stringify(value);
+        }
+        if (value instanceof MockMessage) {
+            return JSON.stringify(value.toString());
+        }
+        if (value instanceof MockObject || value instanceof MockSquad || value instanceof MockVector || value instanceof MockWidget) {
+            return value.toString();
+        }
+        return String(value);
+    }
+}
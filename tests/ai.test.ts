@@ -0,0 +1,65 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+function recordingBehavior(log: string[]): Portal.AIBehavior {
+    return {
+        onSpawn: player => { log.push(`spawn ${player.id}`); },
+        onDamaged: (player, damager, damage) => { log.push(`damaged ${player.id} ${damage}`); },
+        onDeath: (player, killer) => { log.push(`death ${player.id} by ${killer.id}`); },
+    };
+}
+
+describe('AIManager personalities', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('applies the pending personality to the AI the spawner produces', async () => {
+        const spawnerMock = runtime.addObject('Spawner');
+        const spawner = Portal.Spawner.fromNative(spawnerMock as unknown as mod.Spawner);
+        const log: string[] = [];
+        const personality = new Portal.AIPersonality(recordingBehavior(log), { health: 250, speedMultiplier: 1.5 });
+
+        Portal.AIManager.spawn(personality, spawner);
+        assert.deepEqual(argsOf('SpawnAIFromAISpawner'), [[spawnerMock]]);
+
+        const { mock: ai } = await joinPlayer({ ai: true });
+        await runtime.fire('OnSpawnerSpawned', ai, spawnerMock);
+
+        const player = Portal.Player.fromNative(ai as unknown as mod.Player).asAI()!;
+        assert.equal(player.personality, personality);
+        assert.deepEqual(log, [`spawn ${ai.id}`]);
+        assert.deepEqual(argsOf('SetPlayerMaxHealth'), [[ai, 250]]);
+        assert.deepEqual(argsOf('Heal'), [[ai, 250]]);
+        assert.deepEqual(argsOf('SetPlayerMovementSpeedMultiplier'), [[ai, 1.5]]);
+    });
+
+    test('assigns a personality only once per spawn request', async () => {
+        const spawnerMock = runtime.addObject('Spawner');
+        const spawner = Portal.Spawner.fromNative(spawnerMock as unknown as mod.Spawner);
+        const log: string[] = [];
+        Portal.AIManager.spawn(new Portal.AIPersonality(recordingBehavior(log)), spawner);
+
+        const { mock: first } = await joinPlayer({ ai: true });
+        await runtime.fire('OnSpawnerSpawned', first, spawnerMock);
+        const { mock: second } = await joinPlayer({ ai: true });
+        await runtime.fire('OnSpawnerSpawned', second, spawnerMock);
+
+        assert.deepEqual(log, [`spawn ${first.id}`]);
+        assert.equal(Portal.Player.fromNative(second as unknown as mod.Player).asAI()!.personality, null);
+    });
+
+    test('routes damage and death to the behavior', async () => {
+        const spawnerMock = runtime.addObject('Spawner');
+        const log: string[] = [];
+        Portal.AIManager.spawn(new Portal.AIPersonality(recordingBehavior(log)), Portal.Spawner.fromNative(spawnerMock as unknown as mod.Spawner));
+        const { mock: ai } = await joinPlayer({ ai: true });
+        await runtime.fire('OnSpawnerSpawned', ai, spawnerMock);
+        const { mock: attacker } = await joinPlayer({ team: 2 });
+        await runtime.deploy(ai);
+
+        await runtime.damage(ai, attacker, 40);
+        await runtime.kill(ai, attacker);
+
+        assert.deepEqual(log, [`spawn ${ai.id}`, `damaged ${ai.id} 40`, `death ${ai.id} by ${attacker.id}`]);
+    });
+});
@@ -0,0 +1,28 @@
+// Type-checks and compiles the wrapper, the mock runtime and the tests into build/ for `npm test`.
+// wrapper.ts keeps the Portal namespace private to the file pasted into the game, so this build appends
+// an export of it, letting the tests reach the wrapper classes directly.
+const path = require('path');
+const ts = require('typescript');
+
+const wrapperPath = path.resolve(__dirname, '..', 'wrapper.ts');
+
+const config = ts.getParsedCommandLineOfConfigFile(path.join(__dirname, 'tsconfig.json'), {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => {
+        throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    },
+});
+
+const host = ts.createCompilerHost(config.options);
+const readFile = host.readFile;
+host.readFile = fileName => {
+    const text = readFile.call(host, fileName);
+    return text !== undefined && path.resolve(fileName) === wrapperPath ? `${text}\nexport { Portal };\n` : text;
+};
+
+const program = ts.createProgram({ rootNames: config.fileNames, options: config.options, host });
+const diagnostics = [...config.errors, ...ts.getPreEmitDiagnostics(program), ...program.emit().diagnostics];
+if (diagnostics.length > 0) {
+    console.error(ts.formatDiagnosticsWithColorAndContext(diagnostics, host));
+    process.exit(1);
+}
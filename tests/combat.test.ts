@@ -0,0 +1,95 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('CombatLog', () => {
+    beforeEach(() => {
+        runtime.clearLog();
+        Portal.CombatLog.clear();
+    });
+
+    async function deployed(team: number) {
+        const joined = await joinPlayer({ team });
+        await runtime.deploy(joined.mock);
+        return joined;
+    }
+
+    test('sums the damage an attacker dealt within the time asked for', async () => {
+        const victim = await deployed(1);
+        const attacker = await deployed(2);
+
+        await runtime.damage(victim.mock, attacker.mock, 20);
+        await runtime.advance(8);
+        await runtime.damage(victim.mock, attacker.mock, 15);
+
+        assert.equal(Portal.CombatLog.damageFrom(victim.player, attacker.player), 35);
+        assert.equal(Portal.CombatLog.damageFrom(victim.player, attacker.player, 5), 15);
+        await runtime.advance(5);
+        assert.equal(Portal.CombatLog.damageFrom(victim.player, attacker.player), 15);
+    });
+
+    test('lists the recent attackers by damage dealt and ignores self damage', async () => {
+        const victim = await deployed(1);
+        const light = await deployed(2);
+        const heavy = await deployed(2);
+
+        await runtime.damage(victim.mock, light.mock, 10);
+        await runtime.damage(victim.mock, heavy.mock, 30);
+        await runtime.damage(victim.mock, victim.mock, 5);
+
+        assert.deepEqual(Portal.CombatLog.recentAttackers(victim.player), [heavy.player, light.player]);
+        assert.equal(Portal.CombatLog.lastDamager(victim.player), heavy.player);
+    });
+
+    test('forgets entries older than the window', async () => {
+        const victim = await deployed(1);
+        const attacker = await deployed(2);
+
+        await runtime.damage(victim.mock, attacker.mock, 10);
+        await runtime.advance(Portal.CombatLog.window + 1);
+
+        assert.deepEqual(Portal.CombatLog.history(victim.player), []);
+        assert.equal(Portal.CombatLog.lastDamager(victim.player), null);
+    });
+
+    test('records deaths and assists', async () => {
+        const victim = await deployed(1);
+        const killer = await deployed(2);
+        const assister = await deployed(2);
+
+        await runtime.damage(victim.mock, assister.mock, 40);
+        await runtime.kill(victim.mock, killer.mock);
+        await runtime.fire('OnPlayerEarnedKillAssist', assister.mock, victim.mock);
+
+        assert.equal(Portal.CombatLog.lastDeath(victim.player)!.attacker, killer.player);
+        assert.deepEqual(Portal.CombatLog.history(victim.player).filter(entry => entry.kind === 'assist').map(entry => entry.attacker), [assister.player]);
+    });
+
+    test('drops the history of a player who left and their hits on others', async () => {
+        const victim = await deployed(1);
+        const attacker = await deployed(2);
+        await runtime.damage(victim.mock, attacker.mock, 10);
+        await runtime.damage(attacker.mock, victim.mock, 10);
+
+        await runtime.leave(attacker.mock);
+
+        assert.deepEqual(Portal.CombatLog.history(victim.player), []);
+    });
+
+    test('records damage and a single death entry for a kill', async () => {
+        const { mock: victimMock, player: victim } = await joinPlayer({ team: 1 });
+        const { mock: killerMock, player: killer } = await joinPlayer({ team: 2 });
+        await runtime.deploy(victimMock);
+
+        await runtime.damage(victimMock, killerMock, 30);
+        await runtime.kill(victimMock, killerMock);
+
+        assert.deepEqual(Portal.CombatLog.history(victim).map(entry => [entry.kind, entry.attacker]), [
+            ['damage', killer],
+            ['death', killer],
+        ]);
+        assert.deepEqual(Portal.CombatLog.history(killer), []);
+        assert.equal(Portal.CombatLog.damageFrom(victim, killer), 30);
+        assert.equal(Portal.CombatLog.lastDeath(victim)!.attacker, killer);
+    });
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('Damage reports', () => {
+    beforeEach(() => runtime.clearLog());
+
+    async function deployedPair() {
+        const victim = await joinPlayer({ team: 1 });
+        const attacker = await joinPlayer({ team: 2 });
+        await runtime.deploy(victim.mock);
+        await runtime.deploy(attacker.mock);
+        return { victim, attacker };
+    }
+
+    test('reports the damage and the health before and after each hit', async () => {
+        const { victim, attacker } = await deployedPair();
+        const reports: number[][] = [];
+        victim.player.onPlayerDamaged.subscribe(async (damager, damageType, weapon, damage, healthBefore, healthAfter) => {
+            assert.equal(damager, attacker.player);
+            reports.push([damage, healthBefore, healthAfter]);
+        });
+
+        await runtime.damage(victim.mock, attacker.mock, 30);
+        await runtime.damage(victim.mock, attacker.mock, 25);
+
+        assert.deepEqual(reports, [[30, 100, 70], [25, 70, 45]]);
+    });
+
+    test('passes the same values to Game.onAnyPlayerDamaged', async () => {
+        const { victim, attacker } = await deployedPair();
+        const reports: [Portal.Player, number, number, number][] = [];
+        const subscription = Portal.Game.onAnyPlayerDamaged.subscribe(async (player, damager, damageType, weapon, damage, healthBefore, healthAfter) => {
+            reports.push([player, damage, healthBefore, healthAfter]);
+        });
+
+        await runtime.damage(victim.mock, attacker.mock, 15);
+        subscription.unsubscribe();
+
+        assert.deepEqual(reports, [[victim.player, 15, 100, 85]]);
+    });
+
+    test('measures heals and damage dealt through the wrapper from the current health', async () => {
+        const { victim } = await deployedPair();
+        const damages: number[] = [];
+        victim.player.onPlayerDamaged.subscribe(async (damager, damageType, weapon, damage) => { damages.push(damage); });
+        victim.mock.health = 50;
+
+        victim.player.heal(20);
+        victim.player.damage(10);
+        await runtime.flush();
+
+        assert.deepEqual(damages, [10]);
+        assert.equal(victim.player.currentHealth, 60);
+    });
+
+    test('measures from the health sampled on the last tick', async () => {
+        const { victim, attacker } = await deployedPair();
+        const reports: number[][] = [];
+        victim.player.onPlayerDamaged.subscribe(async (damager, damageType, weapon, damage, healthBefore, healthAfter) => {
+            reports.push([damage, healthBefore, healthAfter]);
+        });
+        await runtime.damage(victim.mock, attacker.mock, 30);
+
+        victim.mock.health = 90;
+        await runtime.fire('OngoingPlayer', victim.mock);
+        await runtime.damage(victim.mock, attacker.mock, 20);
+
+        assert.deepEqual(reports, [[30, 100, 70], [20, 90, 70]]);
+    });
+
+    test('under-counts a hit by the health regenerated since the last sample', async () => {
+        const { victim, attacker } = await deployedPair();
+        const damages: number[] = [];
+        victim.player.onPlayerDamaged.subscribe(async (damager, damageType, weapon, damage) => { damages.push(damage); });
+        await runtime.damage(victim.mock, attacker.mock, 30);
+
+        victim.mock.health = 90;
+        await runtime.damage(victim.mock, attacker.mock, 30);
+        victim.mock.health = 100;
+        await runtime.damage(victim.mock, attacker.mock, 20);
+
+        assert.deepEqual(damages, [30, 10, 0]);
+    });
+
+    test('reports 0 when health is sampled between the hit and the event', async () => {
+        const { victim, attacker } = await deployedPair();
+        const reports: number[][] = [];
+        victim.player.onPlayerDamaged.subscribe(async (damager, damageType, weapon, damage, healthBefore, healthAfter) => {
+            reports.push([damage, healthBefore, healthAfter]);
+        });
+
+        victim.mock.health = 70;
+        await runtime.fire('OngoingPlayer', victim.mock);
+        await runtime.damage(victim.mock, attacker.mock, 0);
+
+        assert.deepEqual(reports, [[0, 70, 70]]);
+        assert.equal(Portal.CombatLog.damageFrom(victim.player, attacker.player), 0);
+    });
+});
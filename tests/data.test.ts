@@ -0,0 +1,99 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+const Money = new Portal.DataKey<number>('money', () => 100);
+const Loadout = new Portal.DataKey<string[]>('loadout', () => []);
+
+describe('DataKey', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('creates the default lazily, once per owner', async () => {
+        const { player } = await joinPlayer();
+        const { player: other } = await joinPlayer();
+
+        assert.equal(player.data(Money).isSet, false);
+        player.data(Loadout).value.push('medic');
+        player.data(Money).value += 50;
+
+        assert.equal(player.data(Money).value, 150);
+        assert.equal(player.data(Money).isSet, true);
+        assert.deepEqual(player.data(Loadout).value, ['medic']);
+        assert.equal(other.data(Money).value, 100);
+        assert.deepEqual(other.data(Loadout).value, []);
+    });
+
+    test('reset brings the default back on the next read', async () => {
+        const { player } = await joinPlayer();
+        player.data(Money).value = 5;
+
+        player.data(Money).reset();
+
+        assert.equal(player.data(Money).isSet, false);
+        assert.equal(player.data(Money).value, 100);
+    });
+
+    test('is cleared when the player leaves', async () => {
+        const { mock, player } = await joinPlayer();
+        const slot = player.data(Money);
+        slot.value = 5;
+
+        await runtime.leave(mock);
+
+        assert.equal(slot.isSet, false);
+    });
+
+    test('is cleared when the object is destroyed', () => {
+        const object = Portal.SpatialObject.fromNative(runtime.addObject('SpatialObject') as unknown as mod.SpatialObject);
+        const slot = object.data(Money);
+        slot.value = 5;
+
+        object.destroy();
+
+        assert.equal(slot.isSet, false);
+    });
+
+    test('works on teams', () => {
+        const team = Portal.Team.fromNative(mod.GetTeam(1));
+
+        team.data(Money).value = 1000;
+
+        assert.equal(Portal.Team.fromNative(mod.GetTeam(1)).data(Money).value, 1000);
+        assert.equal(Portal.Team.fromNative(mod.GetTeam(2)).data(Money).value, 100);
+    });
+
+    test('works on squads and is kept while any member stays', async () => {
+        const { mock: first, player } = await joinPlayer({ team: 2, squad: 7 });
+        await joinPlayer({ team: 2, squad: 7 });
+
+        player.squad.data(Money).value = 1000;
+        await runtime.leave(first);
+
+        assert.equal(Portal.Squad.fromNative(mod.GetSquad(2, 7)).data(Money).value, 1000);
+        assert.equal(Portal.Squad.fromNative(mod.GetSquad(2, 8)).data(Money).value, 100);
+    });
+
+    test('is cleared when the last member leaves the squad', async () => {
+        const { mock: first, player } = await joinPlayer({ team: 1, squad: 9 });
+        const { mock: second } = await joinPlayer({ team: 1, squad: 9 });
+        const slot = player.squad.data(Money);
+        slot.value = 1000;
+
+        await runtime.leave(first);
+        await runtime.leave(second);
+        const { player: newcomer } = await joinPlayer({ team: 1, squad: 9 });
+
+        assert.equal(slot.isSet, false);
+        assert.equal(newcomer.squad.data(Money).value, 100);
+    });
+
+    test('persistIndex also writes the value to the object variable', async () => {
+        const { mock, player } = await joinPlayer();
+        const Persisted = new Portal.DataKey<number>('persisted', () => 0, { persistIndex: 3 });
+
+        player.data(Persisted).value = 42;
+
+        assert.deepEqual(argsOf('ObjectVariable'), [[mock, 3]]);
+        assert.equal(Portal.Variable.forObject<number>(player, 3).value, 42);
+    });
+});
@@ -0,0 +1,193 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Portal, runtime } from './harness';
+
+type Handler = (value: number) => Promise<void>;
+
+describe('Event dispatch', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('calls handlers by priority, then in subscription order', () => {
+        const event = new Portal.Event<Handler>();
+        const log: string[] = [];
+        event.subscribe(async () => { log.push('default'); });
+        event.subscribe(async () => { log.push('low'); }, -1);
+        event.subscribe(async () => { log.push('high'); }, 10);
+        event.subscribe(async () => { log.push('default again'); });
+
+        event.dispatch(1);
+
+        assert.deepEqual(log, ['high', 'default', 'default again', 'low']);
+    });
+
+    test('stopPropagation skips the lower-priority handlers', () => {
+        const event = new Portal.Event<Handler>();
+        const log: string[] = [];
+        event.subscribe(async () => {
+            log.push('guard');
+            event.stopPropagation();
+        }, 100);
+        event.subscribe(async () => { log.push('rest'); });
+
+        event.dispatch(1);
+        event.dispatch(2);
+
+        assert.deepEqual(log, ['guard', 'guard']);
+    });
+
+    test('reports handler errors and rejections without stopping the others', async () => {
+        const event = new Portal.Event<Handler>();
+        const log: number[] = [];
+        event.subscribe(() => { throw new Error('thrown'); });
+        event.subscribe(async () => { throw new Error('rejected'); });
+        event.subscribe(async value => { log.push(value); });
+
+        event.dispatch(7);
+        await runtime.flush();
+
+        assert.deepEqual(log, [7]);
+        assert.deepEqual(runtime.errors, ['Error in event handler: Error: thrown', 'Error in event handler: Error: rejected']);
+    });
+
+    test('dispatchAsync sequential awaits each handler before the next', async () => {
+        const event = new Portal.Event<Handler>();
+        const log: string[] = [];
+        event.subscribe(async () => {
+            await mod.Wait(1);
+            log.push('slow');
+        });
+        event.subscribe(async () => { log.push('fast'); });
+
+        const done = event.dispatchAsync('sequential', 1);
+        await runtime.advance(1);
+        await done;
+
+        assert.deepEqual(log, ['slow', 'fast']);
+    });
+
+    test('dispatchAsync parallel starts every handler and resolves when all finished', async () => {
+        const event = new Portal.Event<Handler>();
+        const log: string[] = [];
+        event.subscribe(async () => {
+            await mod.Wait(1);
+            log.push('slow');
+        });
+        event.subscribe(async () => { log.push('fast'); });
+        let finished = false;
+
+        event.dispatchAsync('parallel', 1).then(() => { finished = true; });
+        await runtime.flush();
+        assert.deepEqual(log, ['fast']);
+        assert.equal(finished, false);
+
+        await runtime.advance(1);
+        assert.deepEqual(log, ['fast', 'slow']);
+        assert.equal(finished, true);
+    });
+
+    test('dispatchAsync reports rejections and still resolves', async () => {
+        const event = new Portal.Event<Handler>();
+        event.subscribe(async () => { throw new Error('failed'); });
+
+        await event.dispatchAsync('sequential', 1);
+
+        assert.deepEqual(runtime.errors, ['Error in event handler: Error: failed']);
+    });
+});
+
+describe('Event operators', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('once removes the handler before its first call', () => {
+        const event = new Portal.Event<Handler>();
+        const log: number[] = [];
+        event.once(async value => { log.push(value); });
+
+        event.dispatch(1);
+        event.dispatch(2);
+
+        assert.deepEqual(log, [1]);
+    });
+
+    test('filter and map forward matching dispatches with the mapped value', () => {
+        const event = new Portal.Event<Handler>();
+        const log: string[] = [];
+        event.filter(value => value % 2 === 0).map(value => `even ${value}`).subscribe(async text => { log.push(text); });
+
+        [1, 2, 3, 4].forEach(value => event.dispatch(value));
+
+        assert.deepEqual(log, ['even 2', 'even 4']);
+    });
+
+    test('take forwards the first dispatches only', () => {
+        const event = new Portal.Event<Handler>();
+        const log: number[] = [];
+        event.take(2).subscribe(async value => { log.push(value); });
+
+        [1, 2, 3].forEach(value => event.dispatch(value));
+
+        assert.deepEqual(log, [1, 2]);
+    });
+
+    test('debounce fires once dispatches stop, with the latest value', async () => {
+        const event = new Portal.Event<Handler>();
+        const log: number[] = [];
+        event.debounce(1).subscribe(async value => { log.push(value); });
+
+        event.dispatch(1);
+        await runtime.advance(0.5);
+        event.dispatch(2);
+        await runtime.advance(0.5);
+        assert.deepEqual(log, []);
+
+        await runtime.advance(0.5);
+        assert.deepEqual(log, [2]);
+    });
+
+    test('a derived event only listens to its source while it has subscribers', () => {
+        const event = new Portal.Event<Handler>();
+        const log: number[] = [];
+        const handler = async (value: number) => { log.push(value); };
+        const doubled = event.map(value => value * 2);
+
+        const subscription = doubled.subscribe(handler);
+        event.dispatch(1);
+        subscription.unsubscribe();
+        event.dispatch(2);
+        doubled.subscribe(handler);
+        event.dispatch(3);
+
+        assert.deepEqual(log, [2, 6]);
+    });
+
+    test('next resolves with the arguments of the next dispatch', async () => {
+        const event = new Portal.Event<Handler>();
+
+        const next = event.next();
+        event.dispatch(5);
+
+        assert.deepEqual(await next, [5]);
+    });
+
+    test('next resolves with null when the timeout passes first', async () => {
+        const event = new Portal.Event<Handler>();
+        let result: [number] | null | undefined;
+
+        event.next(2).then(value => { result = value; });
+        await runtime.advance(2);
+        event.dispatch(5);
+        await runtime.flush();
+
+        assert.equal(result, null);
+    });
+
+    test('next rejects with CancelledError when its token is cancelled', async () => {
+        const event = new Portal.Event<Handler>();
+        const token = new Portal.CancellationToken();
+
+        const next = event.next(undefined, token);
+        token.cancel();
+
+        await assert.rejects(next, Portal.CancelledError);
+    });
+});
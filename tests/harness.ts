@@ -0,0 +1,50 @@
+import * as assert from 'node:assert/strict';
+import { afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MockPlayer, MockPlayerOptions, MockRuntime } from '../modmock';
+import * as wrapper from '../wrapper';
+
+/** The mock runtime every test in a file shares, installed as the global `mod` with the wrapper's handlers bound. */
+export const runtime = new MockRuntime({
+    declarations: fs.readFileSync(path.join(__dirname, '..', '..', 'mod.d.ts'), 'utf8'),
+    // Natives the mock keeps no state for. The tests assert on their recorded calls.
+    stubs: [
+        'AddAttachmentToWeaponPackage', 'AddEquipment', 'RemoveEquipment',
+        'EnableAllInputRestrictions', 'EnableInputRestriction', 'SetPlayerMovementSpeedMultiplier',
+        'DisplayNotificationMessage',
+        'SpawnAIFromAISpawner',
+        'SetVehicleSpawnerAutoSpawn', 'SetVehicleSpawnerRespawnTime', 'SetVehicleSpawnerTimeUntilAbandon',
+        'SetEmplacementSpawnerType', 'SetEmplacementSpawnerAutoSpawn', 'ForceEmplacementSpawnerSpawn',
+    ],
+})
+    .install()
+    .bind(wrapper);
+
+export import Portal = wrapper.Portal;
+
+// A native the runtime does not implement is usually called from a handler, where the wrapper reports the error
+// instead of failing the test, so every test also checks that none was called.
+afterEach(() => {
+    const unimplemented = [...new Set(runtime.unimplemented)];
+    runtime.unimplemented.length = 0;
+    assert.deepEqual(unimplemented, [], `Unimplemented natives called: ${unimplemented.join(', ')}`);
+});
+
+/** The arguments of every recorded call to a native, in call order. */
+export function argsOf(name: string): any[][] {
+    return runtime.callsTo(name).map(call => call.args);
+}
+
+/** The names of the top-level handlers delivered since the log was last cleared. */
+export function firedNames(): string[] {
+    return runtime.firedEvents.map(event => event.name);
+}
+
+/** Adds a player through OnPlayerJoinGame and returns its wrapper, then clears the log of the calls made on the way. */
+export async function joinPlayer(options: MockPlayerOptions = {}): Promise<{ mock: MockPlayer; player: wrapper.Portal.Player }> {
+    const mock = await runtime.join(options);
+    const player = Portal.Player.fromNative(mock as unknown as mod.Player);
+    runtime.clearLog();
+    return { mock, player };
+}
@@ -0,0 +1,147 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+describe('Weapon.addAttachment', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('replaces the attachment already in the same slot', async () => {
+        const { mock, player } = await joinPlayer();
+        const weapon = new Portal.Weapon(mod.Weapons.LMG_M250)
+            .addAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake)
+            .addAttachment(mod.WeaponAttachments.Top_120_mW_Blue)
+            .addAttachment(mod.WeaponAttachments.Muzzle_Flash_Hider);
+
+        player.inventory.primary = weapon;
+
+        assert.equal(argsOf('CreateNewWeaponPackage').length, 1);
+        assert.deepEqual(argsOf('AddAttachmentToWeaponPackage').map(args => args[0]), [
+            mod.WeaponAttachments.Top_120_mW_Blue,
+            mod.WeaponAttachments.Muzzle_Flash_Hider,
+        ]);
+        const [added] = argsOf('AddEquipment');
+        assert.equal(added[0], mock);
+        assert.equal(added[1], mod.Weapons.LMG_M250);
+        assert.equal(added[3], mod.InventorySlots.PrimaryWeapon);
+    });
+
+    test('re-equips an equipped weapon when an attachment changes', async () => {
+        const { mock, player } = await joinPlayer();
+        const weapon = new Portal.Weapon(mod.Weapons.LMG_M250).addAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake);
+        player.inventory.primary = weapon;
+        runtime.clearLog();
+
+        weapon.addAttachment(mod.WeaponAttachments.Muzzle_Flash_Hider);
+
+        assert.deepEqual(runtime.calls.map(call => call.name), [
+            'RemoveEquipment',
+            'CreateNewWeaponPackage',
+            'AddAttachmentToWeaponPackage',
+            'AddEquipment',
+        ]);
+        assert.deepEqual(argsOf('RemoveEquipment'), [[mock, mod.InventorySlots.PrimaryWeapon]]);
+        assert.deepEqual(argsOf('AddAttachmentToWeaponPackage').map(args => args[0]), [mod.WeaponAttachments.Muzzle_Flash_Hider]);
+    });
+
+    test('does nothing when the same attachment is added again', async () => {
+        const { player } = await joinPlayer();
+        const weapon = new Portal.Weapon(mod.Weapons.LMG_M250).addAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake);
+        player.inventory.primary = weapon;
+        runtime.clearLog();
+
+        weapon.addAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake);
+
+        assert.deepEqual(runtime.calls, []);
+    });
+
+    test('re-equips without the attachment after removeAttachment', async () => {
+        const { player } = await joinPlayer();
+        const weapon = new Portal.Weapon(mod.Weapons.LMG_M250)
+            .addAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake)
+            .addAttachment(mod.WeaponAttachments.Bottom_Bipod);
+        player.inventory.primary = weapon;
+        runtime.clearLog();
+
+        weapon.removeAttachment(mod.WeaponAttachments.Muzzle_Compensated_Brake);
+
+        assert.deepEqual(argsOf('AddAttachmentToWeaponPackage').map(args => args[0]), [mod.WeaponAttachments.Bottom_Bipod]);
+        assert.equal(argsOf('AddEquipment').length, 1);
+    });
+});
+
+describe('InventoryManager slots', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('clears the slot before adding a gadget to it', async () => {
+        const { mock, player } = await joinPlayer();
+
+        player.inventory.gadget1 = mod.Gadgets.Class_Repair_Tool;
+
+        assert.deepEqual(runtime.calls.map(call => call.name), ['RemoveEquipment', 'AddEquipment']);
+        assert.deepEqual(argsOf('RemoveEquipment'), [[mock, mod.InventorySlots.GadgetOne]]);
+        assert.deepEqual(argsOf('AddEquipment'), [[mock, mod.Gadgets.Class_Repair_Tool, mod.InventorySlots.GadgetOne]]);
+        assert.equal(player.inventory.gadget1, mod.Gadgets.Class_Repair_Tool);
+    });
+
+    test('only removes the equipment when a slot is set to null', async () => {
+        const { mock, player } = await joinPlayer();
+        player.inventory.throwable = mod.Gadgets.Throwable_Smoke_Grenade;
+        runtime.clearLog();
+
+        player.inventory.throwable = null;
+
+        assert.deepEqual(runtime.calls.map(call => call.name), ['RemoveEquipment']);
+        assert.deepEqual(argsOf('RemoveEquipment'), [[mock, mod.InventorySlots.Throwable]]);
+        assert.equal(player.inventory.throwable, null);
+    });
+
+    test('unlinks a replaced weapon from the inventory', async () => {
+        const { player } = await joinPlayer();
+        const first = new Portal.Weapon(mod.Weapons.LMG_M250);
+        player.inventory.primary = first;
+        player.inventory.primary = new Portal.Weapon(mod.Weapons.LMG_M250);
+        runtime.clearLog();
+
+        first.addAttachment(mod.WeaponAttachments.Muzzle_Flash_Hider);
+
+        assert.deepEqual(runtime.calls, []);
+    });
+});
+
+describe('InputRestrictions', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('all restricts every input with a single native call', async () => {
+        const { mock, player } = await joinPlayer();
+
+        player.inputRestrictions.all = true;
+
+        assert.deepEqual(argsOf('EnableAllInputRestrictions'), [[mock, true]]);
+        assert.deepEqual(argsOf('EnableInputRestriction'), []);
+        assert.equal(player.inputRestrictions.jump, true);
+        assert.equal(player.inputRestrictions.sprint, true);
+        assert.equal(player.inputRestrictions.fireWeapon, true);
+    });
+
+    test('a single input can be lifted after all', async () => {
+        const { mock, player } = await joinPlayer();
+        player.inputRestrictions.all = true;
+        runtime.clearLog();
+
+        player.inputRestrictions.jump = false;
+
+        assert.deepEqual(argsOf('EnableInputRestriction'), [[mock, mod.RestrictedInputs.Jump, false]]);
+        assert.equal(player.inputRestrictions.jump, false);
+        assert.equal(player.inputRestrictions.sprint, true);
+    });
+
+    test('all = false lifts every restriction', async () => {
+        const { mock, player } = await joinPlayer();
+        player.inputRestrictions.zoom = true;
+
+        player.inputRestrictions.all = false;
+
+        assert.deepEqual(argsOf('EnableAllInputRestrictions'), [[mock, false]]);
+        assert.equal(player.inputRestrictions.zoom, false);
+    });
+});
@@ -0,0 +1,85 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('KillStreaks', () => {
+    const log: string[] = [];
+    Portal.KillStreaks.onKillStreak.subscribe(async (player, count) => { log.push(`streak ${player.id} ${count}`); });
+    Portal.KillStreaks.onMultiKill.subscribe(async (player, count) => { log.push(`multi ${player.id} ${count}`); });
+    Portal.KillStreaks.onRevenge.subscribe(async (player, victim) => { log.push(`revenge ${player.id} on ${victim.id}`); });
+    Portal.KillStreaks.onFirstBlood.subscribe(async (player, victim) => { log.push(`first blood ${player.id} on ${victim.id}`); });
+
+    beforeEach(() => {
+        runtime.clearLog();
+        Portal.KillStreaks.reset();
+        log.length = 0;
+    });
+
+    async function deployed(team: number) {
+        const joined = await joinPlayer({ team });
+        await runtime.deploy(joined.mock);
+        return joined;
+    }
+
+    test('counts kills since the last death and keeps the best streak', async () => {
+        const killer = await deployed(1);
+        const victim = await deployed(2);
+
+        await runtime.kill(victim.mock, killer.mock);
+        await runtime.deploy(victim.mock);
+        await runtime.advance(10);
+        await runtime.kill(victim.mock, killer.mock);
+        await runtime.deploy(killer.mock);
+        await runtime.kill(killer.mock, victim.mock);
+
+        assert.equal(Portal.KillStreaks.current(killer.player), 0);
+        assert.equal(Portal.KillStreaks.best(killer.player), 2);
+        assert.equal(Portal.KillStreaks.current(victim.player), 1);
+        assert.deepEqual(log, [
+            `first blood ${killer.mock.id} on ${victim.mock.id}`,
+            `streak ${killer.mock.id} 1`,
+            `streak ${killer.mock.id} 2`,
+            `revenge ${victim.mock.id} on ${killer.mock.id}`,
+            `streak ${victim.mock.id} 1`,
+        ]);
+    });
+
+    test('reports multi-kills within the window only', async () => {
+        const killer = await deployed(1);
+        const first = await deployed(2);
+        const second = await deployed(2);
+        const third = await deployed(2);
+
+        await runtime.kill(first.mock, killer.mock);
+        await runtime.advance(3);
+        await runtime.kill(second.mock, killer.mock);
+        await runtime.advance(Portal.KillStreaks.multiKillWindow + 1);
+        await runtime.kill(third.mock, killer.mock);
+
+        assert.deepEqual(log.filter(entry => entry.startsWith('multi')), [`multi ${killer.mock.id} 2`]);
+        assert.equal(Portal.KillStreaks.current(killer.player), 3);
+    });
+
+    test('ignores suicides', async () => {
+        const player = await deployed(1);
+
+        await runtime.kill(player.mock);
+
+        assert.equal(Portal.KillStreaks.best(player.player), 0);
+        assert.deepEqual(log, []);
+    });
+
+    test('reset clears the streaks and allows first blood again', async () => {
+        const killer = await deployed(1);
+        const victim = await deployed(2);
+        await runtime.kill(victim.mock, killer.mock);
+
+        Portal.KillStreaks.reset();
+        log.length = 0;
+        await runtime.deploy(victim.mock);
+        await runtime.kill(victim.mock, killer.mock);
+
+        assert.equal(Portal.KillStreaks.best(killer.player), 1);
+        assert.deepEqual(log, [`first blood ${killer.mock.id} on ${victim.mock.id}`, `streak ${killer.mock.id} 1`]);
+    });
+});
@@ -0,0 +1,216 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+type Phase = 'warmup' | 'live' | 'postRound';
+
+function phases(log: string[], overrides: Partial<Portal.MatchStateMachineConfig<Phase>['states']> = {}): Portal.MatchStateMachineConfig<Phase>['states'] {
+    return {
+        warmup: {
+            onEnter: previous => { log.push(`enter warmup from ${previous}`); },
+            onExit: next => { log.push(`exit warmup to ${next}`); },
+            transitions: ['live'],
+        },
+        live: {
+            onEnter: previous => { log.push(`enter live from ${previous}`); },
+        },
+        postRound: {},
+        ...overrides,
+    };
+}
+
+describe('MatchStateMachine', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('start enters the initial state', () => {
+        const log: string[] = [];
+        const machine = new Portal.MatchStateMachine<Phase>({ initial: 'warmup', states: phases(log) });
+        machine.onPhaseChanged.subscribe(async (phase, previous) => { log.push(`changed to ${phase} from ${previous}`); });
+
+        machine.start();
+        machine.dispose();
+
+        assert.equal(machine.phase, 'warmup');
+        assert.deepEqual(log, ['enter warmup from null', 'changed to warmup from null']);
+    });
+
+    test('transition runs the exit and enter hooks of allowed transitions only', () => {
+        const log: string[] = [];
+        const machine = new Portal.MatchStateMachine<Phase>({ initial: 'warmup', states: phases(log) });
+        machine.start();
+
+        assert.equal(machine.transition('postRound'), false);
+        assert.equal(machine.transition('live'), true);
+        machine.dispose();
+
+        assert.equal(machine.phase, 'live');
+        assert.deepEqual(log, ['enter warmup from null', 'exit warmup to live', 'enter live from warmup']);
+    });
+
+    test('canExit guards leaving a state', () => {
+        let ready = false;
+        const machine = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases([], { warmup: { canExit: () => ready } }),
+        });
+        machine.start();
+
+        assert.equal(machine.canTransition('live'), false);
+        assert.equal(machine.transition('live'), false);
+        ready = true;
+        assert.equal(machine.transition('live'), true);
+        machine.dispose();
+    });
+
+    test('a timed state moves to its next state when the time limit is reached', async () => {
+        const log: string[] = [];
+        const machine = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases(log, { warmup: { duration: 30, next: 'live' } }),
+        });
+        machine.start();
+        assert.deepEqual(argsOf('SetGameModeTimeLimit'), [[30]]);
+        assert.equal(argsOf('ResetGameModeTime').length, 1);
+
+        await runtime.advance(29);
+        assert.equal(machine.phase, 'warmup');
+        await runtime.advance(1);
+        machine.dispose();
+
+        assert.equal(machine.phase, 'live');
+        assert.deepEqual(log, ['enter live from warmup']);
+    });
+
+    test('ticks the active state on Game.onGoing until disposed', async () => {
+        let ticks = 0;
+        const machine = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases([], { warmup: { onTick: () => { ticks++; } } }),
+        });
+        machine.start();
+
+        await runtime.fire('Ongoing');
+        await runtime.fire('Ongoing');
+        machine.dispose();
+        await runtime.fire('Ongoing');
+
+        assert.equal(ticks, 2);
+    });
+
+    test('a transition requested from a hook runs after the current one', () => {
+        const log: string[] = [];
+        const machine: Portal.MatchStateMachine<Phase> = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases(log, {
+                live: {
+                    onEnter: () => { log.push(`queued ${machine.transition('postRound')}`); },
+                    transitions: ['postRound'],
+                },
+                postRound: { onEnter: previous => { log.push(`enter postRound from ${previous}`); } },
+            }),
+        });
+        machine.start();
+
+        machine.transition('live');
+        machine.dispose();
+
+        assert.equal(machine.phase, 'postRound');
+        assert.deepEqual(log, ['enter warmup from null', 'exit warmup to live', 'queued false', 'enter postRound from live']);
+    });
+
+    test('reports a queued transition that is not allowed once it is applied', () => {
+        const machine: Portal.MatchStateMachine<Phase> = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases([], { live: { onEnter: () => { machine.transition('warmup'); }, transitions: ['postRound'] } }),
+        });
+        machine.start();
+
+        machine.transition('live');
+        machine.dispose();
+
+        assert.equal(machine.phase, 'live');
+        assert.deepEqual(runtime.errors, ['Queued match transition from live to warmup is not allowed.']);
+    });
+
+    test('reports errors thrown by hooks', () => {
+        const machine = new Portal.MatchStateMachine<Phase>({
+            initial: 'warmup',
+            states: phases([], { warmup: { onEnter: () => { throw new Error('no lobby'); } } }),
+        });
+
+        machine.start();
+        machine.dispose();
+
+        assert.equal(machine.phase, 'warmup');
+        assert.deepEqual(runtime.errors, ['Error in match state hook: Error: no lobby']);
+    });
+});
+
+describe('RoundManager', () => {
+    const team1 = () => Portal.Team.fromNative(mod.GetTeam(1));
+    const team2 = () => Portal.Team.fromNative(mod.GetTeam(2));
+
+    beforeEach(() => runtime.clearLog());
+
+    test('plays rounds until a team has the required wins and ends the match', async () => {
+        const { mock: first } = await joinPlayer({ team: 1 });
+        const rounds = new Portal.RoundManager({ teams: [team1(), team2()], rounds: 3, intermission: 2 });
+        const log: string[] = [];
+        rounds.onRoundStarted.subscribe(async round => { log.push(`start ${round}`); });
+        rounds.onRoundEnded.subscribe(async (round, winner) => { log.push(`end ${round} ${winner === team1() ? 'team1' : 'team2'}`); });
+        rounds.onMatchEnded.subscribe(async winner => { log.push(`match ${winner === team1() ? 'team1' : 'team2'}`); });
+
+        rounds.start();
+        await runtime.flush();
+        assert.equal(first.isDeployed, true);
+
+        rounds.endRound(team1());
+        await runtime.flush();
+        assert.equal(first.isDeployed, false);
+        await runtime.advance(2.1);
+        assert.equal(first.isDeployed, true);
+
+        rounds.endRound(team1());
+        await runtime.flush();
+
+        assert.deepEqual(log, ['start 1', 'end 1 team1', 'start 2', 'end 2 team1', 'match team1']);
+        assert.equal(rounds.getWins(team1()), 2);
+        assert.equal(rounds.isFinished, true);
+        assert.deepEqual(argsOf('SetGameModeScore').map(args => args[1]), [1, 2]);
+        assert.equal(runtime.ended!.winner, runtime.team(1));
+        await runtime.leave(first);
+    });
+
+    test('a round time limit ends the round with the decided winner', async () => {
+        const rounds = new Portal.RoundManager({ teams: [team1(), team2()], rounds: 3, roundTimeLimit: 60, timeLimitWinner: () => team2() });
+        const winners: (Portal.Team | null)[] = [];
+        rounds.onRoundEnded.subscribe(async (round, winner) => { winners.push(winner); });
+
+        rounds.start();
+        await runtime.advance(60);
+        rounds.dispose();
+
+        assert.deepEqual(winners, [team2()]);
+        assert.equal(rounds.getWins(team2()), 1);
+    });
+
+    test('swapping sides every round keeps the wins with the players', async () => {
+        const { mock: first } = await joinPlayer({ team: 1 });
+        const { mock: second } = await joinPlayer({ team: 2 });
+        const rounds = new Portal.RoundManager({ teams: [team1(), team2()], rounds: 5, swapSides: 'everyRound' });
+        let swaps = 0;
+        rounds.onSidesSwapped.subscribe(async () => { swaps++; });
+
+        rounds.start();
+        rounds.endRound(team1());
+        rounds.dispose();
+        await runtime.flush();
+
+        assert.equal(swaps, 1);
+        assert.equal(argsOf('SwitchTeams').length, 1);
+        assert.equal(first.team, runtime.team(2));
+        assert.equal(second.team, runtime.team(1));
+        assert.equal(rounds.getWins(team1()), 0);
+        assert.equal(rounds.getWins(team2()), 1);
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MockRuntime } from '../modmock';
+
+const declarations = fs.readFileSync(path.join(__dirname, '..', '..', 'mod.d.ts'), 'utf8');
+
+describe('MockRuntime natives', () => {
+    test('throws on an unimplemented native and lists it', () => {
+        const runtime = new MockRuntime({ declarations });
+
+        assert.throws(() => runtime.mod.SetFriendlyFire(true), /mod\.SetFriendlyFire is not implemented/);
+        assert.deepEqual(runtime.unimplemented, ['SetFriendlyFire']);
+        assert.deepEqual(runtime.callsTo('SetFriendlyFire').map(call => call.args), [[true]]);
+    });
+
+    test('lets stubbed natives through as recorded no-ops', () => {
+        const runtime = new MockRuntime({ declarations, stubs: ['SetFriendlyFire'] });
+
+        assert.equal(runtime.mod.SetFriendlyFire(true), undefined);
+        assert.deepEqual(runtime.unimplemented, []);
+        assert.deepEqual(runtime.callsTo('SetFriendlyFire').map(call => call.args), [[true]]);
+    });
+});
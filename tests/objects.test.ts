@@ -0,0 +1,39 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+const Tag = new Portal.DataKey<string>('tag', () => '');
+
+describe('getById', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('leaves the live wrapper of another class with that id alone', async () => {
+        const { player } = await joinPlayer();
+        player.data(Tag).value = 'keep';
+        let destroyed = 0;
+        player.onDestroyed.subscribe(async () => { destroyed++; });
+
+        assert.equal(Portal.AreaTrigger.getById(player.id), null);
+        assert.equal(Portal.VFX.getById(player.id), null);
+        assert.equal(Portal.WaypointPath.getById(player.id), null);
+        assert.equal(Portal.RingOfFire.getById(player.id), null);
+
+        assert.equal(player.isValid, true);
+        assert.equal(destroyed, 0);
+        assert.equal(player.data(Tag).value, 'keep');
+        assert.equal(Portal.Player.fromNative(player.native), player);
+    });
+
+    test('releases the stale wrapper of its own class', () => {
+        const mock = runtime.addObject('AreaTrigger');
+        const trigger = Portal.AreaTrigger.getById(mock.id)!;
+        let destroyed = 0;
+        trigger.onDestroyed.subscribe(async () => { destroyed++; });
+
+        mock.removed = true;
+
+        assert.equal(Portal.AreaTrigger.getById(mock.id), null);
+        assert.equal(trigger.isValid, false);
+        assert.equal(destroyed, 1);
+    });
+});
@@ -0,0 +1,119 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { firedNames, joinPlayer, Portal, runtime } from './harness';
+
+describe('top-level event routing', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('OnPlayerJoinGame dispatches Game.onPlayerJoined with the wrapper', async () => {
+        const joined: Portal.Player[] = [];
+        const subscription = Portal.Game.onPlayerJoined.subscribe(async player => { joined.push(player); });
+
+        const mock = await runtime.join();
+        subscription.unsubscribe();
+
+        assert.deepEqual(firedNames(), ['OnPlayerJoinGame']);
+        assert.deepEqual(joined, [Portal.Player.fromNative(mock as unknown as mod.Player)]);
+    });
+
+    test('OnPlayerDeployed dispatches on the player and on Game', async () => {
+        const { mock, player } = await joinPlayer();
+        const log: string[] = [];
+        player.onDeployed.subscribe(async () => { log.push('player'); });
+        const subscription = Portal.Game.onAnyPlayerDeployed.subscribe(async deployed => { log.push(`game ${deployed.id}`); });
+
+        await runtime.deploy(mock);
+        subscription.unsubscribe();
+
+        assert.deepEqual(firedNames(), ['OnPlayerDeployed']);
+        assert.deepEqual(log, ['player', `game ${mock.id}`]);
+    });
+
+    test('a kill dispatches the victim, killer and Game events', async () => {
+        const { mock: victimMock, player: victim } = await joinPlayer({ team: 1 });
+        const { mock: killerMock, player: killer } = await joinPlayer({ team: 2 });
+        await runtime.deploy(victimMock);
+        const log: string[] = [];
+        victim.onPlayerDied.subscribe(async by => { log.push(`died by ${by.id}`); });
+        killer.onEarnedKill.subscribe(async of => { log.push(`killed ${of.id}`); });
+        const died = Portal.Game.onAnyPlayerDied.subscribe(async who => { log.push(`any died ${who.id}`); });
+        const earned = Portal.Game.onAnyPlayerEarnedKill.subscribe(async who => { log.push(`any kill ${who.id}`); });
+        runtime.clearLog();
+
+        await runtime.kill(victimMock, killerMock);
+        died.unsubscribe();
+        earned.unsubscribe();
+
+        assert.deepEqual(firedNames(), ['OnPlayerDied', 'OnPlayerEarnedKill']);
+        assert.deepEqual(log, [
+            `died by ${killerMock.id}`,
+            `any died ${victimMock.id}`,
+            `killed ${victimMock.id}`,
+            `any kill ${killerMock.id}`,
+        ]);
+    });
+
+    test('OnPlayerLeaveGame dispatches Game.onPlayerLeft and evicts the wrapper', async () => {
+        const { mock, player } = await joinPlayer();
+        const left: number[] = [];
+        const subscription = Portal.Game.onPlayerLeft.subscribe(async id => { left.push(id); });
+
+        await runtime.leave(mock);
+        subscription.unsubscribe();
+
+        assert.deepEqual(left, [mock.id]);
+        assert.equal(player.isValid, false);
+    });
+
+    test('OnCapturePointCaptured dispatches on the point and on Game', async () => {
+        const pointMock = runtime.addObject('CapturePoint');
+        const point = Portal.CapturePoint.fromNative(pointMock as unknown as mod.CapturePoint);
+        const log: string[] = [];
+        point.onCaptured.subscribe(async () => { log.push('point'); });
+        const subscription = Portal.Game.onAnyCapturePointCaptured.subscribe(async captured => { log.push(`game ${captured === point}`); });
+
+        await runtime.fire('OnCapturePointCaptured', pointMock);
+        subscription.unsubscribe();
+
+        assert.deepEqual(firedNames(), ['OnCapturePointCaptured']);
+        assert.deepEqual(log, ['point', 'game true']);
+    });
+
+    test('OnMCOMDestroyed dispatches onDestroyed and leaves the MCOM valid', async () => {
+        const mcomMock = runtime.addObject('MCOM');
+        const mcom = Portal.MCOM.fromNative(mcomMock as unknown as mod.MCOM);
+        const log: string[] = [];
+        mcom.onDestroyed.subscribe(async () => { log.push('mcom'); });
+        const subscription = Portal.Game.onAnyMCOMDestroyed.subscribe(async destroyed => { log.push(`game ${destroyed === mcom}`); });
+
+        await runtime.fire('OnMCOMDestroyed', mcomMock);
+        subscription.unsubscribe();
+
+        assert.deepEqual(log, ['mcom', 'game true']);
+        assert.equal(mcom.isValid, true);
+    });
+
+    test('OnVehicleDestroyed dispatches on the vehicle and releases it', async () => {
+        const vehicleMock = runtime.addObject('Vehicle');
+        const vehicle = Portal.Vehicle.fromNative(vehicleMock as unknown as mod.Vehicle);
+        const log: string[] = [];
+        vehicle.onVehicleDestroyed.subscribe(async () => { log.push('vehicle'); });
+        vehicle.onDestroyed.subscribe(async () => { log.push('lifecycle'); });
+
+        await runtime.fire('OnVehicleDestroyed', vehicleMock);
+
+        assert.deepEqual(log, ['vehicle', 'lifecycle']);
+        assert.equal(vehicle.isValid, false);
+    });
+
+    test('Ongoing dispatches Game.onGoing', async () => {
+        let ticks = 0;
+        const subscription = Portal.Game.onGoing.subscribe(async () => { ticks++; });
+
+        await runtime.fire('Ongoing');
+        await runtime.fire('Ongoing');
+        subscription.unsubscribe();
+
+        assert.equal(ticks, 2);
+    });
+});
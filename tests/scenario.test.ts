@@ -0,0 +1,90 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MockCapturePoint } from '../modmock';
+import { Scenario } from '../scenario';
+import { firedNames, Portal, runtime } from './harness';
+
+describe('Scenario', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('calls the Ongoing handlers at the tick rate', async () => {
+        const scenario = new Scenario(runtime, { tickRate: 10 });
+        const point = runtime.addObject('CapturePoint');
+        let gameTicks = 0;
+        let pointTicks = 0;
+        const game = Portal.Game.onGoing.subscribe(async () => { gameTicks++; });
+        const capturePoint = Portal.CapturePoint.fromNative(point as unknown as mod.CapturePoint);
+        capturePoint.onGoing.subscribe(async () => { pointTicks++; });
+
+        // Starts on a fresh runtime: ticks are counted from virtual time 0.
+        await scenario.run(0.95);
+        game.unsubscribe();
+        capturePoint.destroy();
+
+        assert.equal(gameTicks, 10);
+        assert.equal(pointTicks, 10);
+    });
+
+    test('runs steps at their times, in the order they were added', async () => {
+        const scenario = new Scenario(runtime);
+        const start = runtime.time;
+        const log: string[] = [];
+
+        scenario
+            .at(start + 2, () => { log.push('b'); })
+            .at(start + 1, s => { log.push(`a at ${s.time - start}`); })
+            .at(start + 2, () => { log.push('c'); });
+        await scenario.run(start + 3);
+
+        assert.deepEqual(log, ['a at 1', 'b', 'c']);
+        assert.equal(runtime.time, start + 3);
+    });
+
+    test('joinPlayers spreads the players over the teams', async () => {
+        const scenario = new Scenario(runtime);
+
+        const players = await scenario.joinPlayers(3);
+
+        assert.deepEqual(players.map(player => player.team.number), [1, 2, 1]);
+        assert.equal(scenario.player(2), players[1]);
+        assert.throws(() => scenario.player(4), /no player 4, only 3 joined/);
+        for (const player of players) {
+            await runtime.leave(player);
+        }
+    });
+
+    test('capture hands the point over and routes the events to the wrapper', async () => {
+        const scenario = new Scenario(runtime);
+        const point = runtime.addObject('CapturePoint') as MockCapturePoint;
+        const capturePoint = Portal.CapturePoint.fromNative(point as unknown as mod.CapturePoint);
+        const log: string[] = [];
+        capturePoint.onCaptured.subscribe(async () => { log.push('captured'); });
+        capturePoint.onLost.subscribe(async () => { log.push('lost'); });
+
+        scenario
+            .at(runtime.time + 1, () => runtime.capture(point, runtime.team(1)))
+            .at(runtime.time + 2, () => runtime.capture(point, runtime.team(2)));
+        await scenario.run(runtime.time + 2);
+
+        assert.deepEqual(log, ['captured', 'lost', 'captured']);
+        assert.equal(capturePoint.owner, runtime.team(2) as unknown as mod.Team);
+        assert.equal(point.previousOwner, runtime.team(1));
+        capturePoint.destroy();
+    });
+
+    test('trace lists events and calls in order and leaves out ticks and queries by default', async () => {
+        const scenario = new Scenario(runtime, { tickRate: 1 });
+        runtime.clearLog();
+
+        await scenario.joinPlayers(1);
+        await scenario.run(runtime.time + 0.5);
+
+        const lines = scenario.trace().split('\n');
+        assert.match(lines[0], /^\[ *\d+\.\d\ds\] OnPlayerJoinGame\(/);
+        assert.equal(lines.some(line => line.includes('Ongoing')), false);
+        assert.equal(lines.some(line => line.includes('mod.Get')), false);
+        assert.ok(firedNames().includes('Ongoing'));
+        assert.ok(scenario.trace({ ongoing: true }).includes(' Ongoing()'));
+        await runtime.leave(scenario.player(1));
+    });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+type Handler = () => Promise<void>;
+
+describe('SubscriptionScope', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('dispose releases every subscription and disposable once', () => {
+        const event = new Portal.Event<Handler>();
+        const scope = new Portal.SubscriptionScope();
+        let calls = 0;
+        let disposed = 0;
+        scope.subscribe(event, async () => { calls++; });
+        scope.add(event.subscribe(async () => { calls++; }));
+        scope.add({ dispose: () => { disposed++; } });
+
+        scope.dispose();
+        scope.dispose();
+        event.dispatch();
+
+        assert.equal(calls, 0);
+        assert.equal(disposed, 1);
+        assert.equal(scope.isDisposed, true);
+    });
+
+    test('releases items added after it was disposed right away', () => {
+        const scope = new Portal.SubscriptionScope();
+        scope.dispose();
+        let disposed = false;
+
+        scope.add({ dispose: () => { disposed = true; } });
+
+        assert.equal(disposed, true);
+    });
+
+    test('until ends the scope on the next dispatch of the event', () => {
+        const roundEnded = new Portal.Event<Handler>();
+        const scope = Portal.SubscriptionScope.until(roundEnded);
+        let disposedEvents = 0;
+        scope.onDisposed.subscribe(async () => { disposedEvents++; });
+
+        roundEnded.dispatch();
+
+        assert.equal(scope.isDisposed, true);
+        assert.equal(disposedEvents, 1);
+    });
+
+    test('forLife ends when the player dies', async () => {
+        const { mock, player } = await joinPlayer();
+        await runtime.deploy(mock);
+        const scope = Portal.SubscriptionScope.forLife(player);
+
+        await runtime.kill(mock);
+
+        assert.equal(scope.isDisposed, true);
+    });
+
+    test('forSession outlives a death and ends when the player leaves', async () => {
+        const { mock, player } = await joinPlayer();
+        await runtime.deploy(mock);
+        const scope = Portal.SubscriptionScope.forSession(player);
+
+        await runtime.kill(mock);
+        assert.equal(scope.isDisposed, false);
+
+        await runtime.leave(mock);
+        assert.equal(scope.isDisposed, true);
+    });
+
+    test('forSession ignores other players leaving', async () => {
+        const { player } = await joinPlayer();
+        const { mock: other } = await joinPlayer();
+        const scope = Portal.SubscriptionScope.forSession(player);
+
+        await runtime.leave(other);
+
+        assert.equal(scope.isDisposed, false);
+    });
+
+    test('forObject ends when the object is destroyed', () => {
+        const object = Portal.SpatialObject.fromNative(runtime.addObject('SpatialObject') as unknown as mod.SpatialObject);
+        const scope = Portal.SubscriptionScope.forObject(object);
+
+        object.destroy();
+
+        assert.equal(scope.isDisposed, true);
+    });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+describe('Scoreboard.setColumns', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('sets the names and widths of every column in one call each', () => {
+        Portal.Scoreboard.setColumns([
+            { name: 'Kills', width: 10 },
+            { name: 'Deaths', width: 10 },
+            { name: 'Flags', width: 20 },
+        ]);
+
+        assert.deepEqual(argsOf('SetScoreboardColumnNames').map(args => args.map(String)), [['Kills', 'Deaths', 'Flags']]);
+        assert.deepEqual(argsOf('SetScoreboardColumnWidths'), [[10, 10, 20]]);
+        assert.deepEqual(runtime.scoreboard.columnWidths, [10, 10, 20]);
+    });
+
+    test('passes message names through unchanged', () => {
+        const name = mod.Message('Score');
+        runtime.clearLog();
+
+        Portal.Scoreboard.setColumns([{ name, width: 15 }]);
+
+        assert.equal(argsOf('SetScoreboardColumnNames')[0][0], name);
+        assert.deepEqual(argsOf('Message'), []);
+    });
+
+    test('reports more than five columns as an error', () => {
+        const columns = [1, 2, 3, 4, 5, 6].map(n => ({ name: `Column ${n}`, width: 5 }));
+
+        Portal.Scoreboard.setColumns(columns);
+
+        assert.deepEqual(argsOf('SetScoreboardColumnNames'), []);
+        assert.deepEqual(runtime.errors, ['Scoreboard: Invalid number of columns. Expected 1-5, got 6.']);
+    });
+
+    test('keeps columns bound through setColumns up to date', async () => {
+        const { mock, player } = await joinPlayer();
+        Portal.PlayerStats.register('flags');
+
+        Portal.Scoreboard.setColumns([{ name: 'Flags', width: 10, stat: 'flags' }]);
+        Portal.PlayerStats.increment(player, 'flags', 2);
+        await runtime.flush();
+
+        assert.deepEqual(runtime.scoreboard.playerValues.get(mock.id), [2]);
+    });
+});
+
+describe('Scoreboard.create', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('sets the type, header, columns and sorting', () => {
+        Portal.Scoreboard.create({
+            type: mod.ScoreboardType.CustomFFA,
+            header: 'Free for all',
+            columns: [{ name: 'Kills', width: 10 }, { name: 'Deaths', width: 10 }],
+            sorting: { columnIndex: 1, reverse: true },
+        });
+
+        assert.deepEqual(argsOf('SetScoreboardType'), [[mod.ScoreboardType.CustomFFA]]);
+        assert.deepEqual(argsOf('SetScoreboardHeader').map(args => args.map(String)), [['Free for all']]);
+        assert.deepEqual(argsOf('SetScoreboardColumnWidths'), [[10, 10]]);
+        assert.deepEqual(argsOf('SetScoreboardSorting'), [[1, true]]);
+    });
+
+    test('pushes bound column values for every player', async () => {
+        const { mock } = await joinPlayer();
+        mock.kills = 3;
+        mock.deaths = 1;
+
+        Portal.Scoreboard.create({
+            type: mod.ScoreboardType.CustomFFA,
+            columns: [
+                { name: 'Kills', width: 10, value: player => player.kills },
+                { name: 'Deaths', width: 10, value: player => player.deaths },
+            ],
+        });
+
+        assert.deepEqual(runtime.scoreboard.playerValues.get(mock.id), [3, 1]);
+    });
+
+    test('pushes stat columns when the stat changes', async () => {
+        const { mock, player } = await joinPlayer();
+        Portal.PlayerStats.register('captures');
+        Portal.Scoreboard.create({
+            type: mod.ScoreboardType.CustomFFA,
+            columns: [{ name: 'Captures', width: 10, stat: 'captures' }],
+            refreshInterval: 60,
+        });
+
+        Portal.PlayerStats.increment(player, 'captures');
+        await runtime.flush();
+
+        assert.deepEqual(runtime.scoreboard.playerValues.get(mock.id), [1]);
+    });
+
+    test('refreshes value columns on the interval and skips unchanged values', async () => {
+        const { mock } = await joinPlayer();
+        let health = 100;
+        Portal.Scoreboard.create({
+            type: mod.ScoreboardType.CustomFFA,
+            columns: [{ name: 'Health', width: 10, value: () => health }],
+            refreshInterval: 2,
+        });
+        const pushed = () => argsOf('SetScoreboardPlayerValues').filter(args => args[0] === mock);
+        runtime.clearLog();
+
+        await runtime.advance(2.1);
+        assert.deepEqual(pushed(), []);
+        health = 40;
+        await runtime.advance(2);
+
+        assert.deepEqual(pushed(), [[mock, 40]]);
+    });
+
+    test('keeps the values set by hand for unbound columns', async () => {
+        const { mock: killer, player } = await joinPlayer({ team: 1 });
+        const { mock: victim } = await joinPlayer({ team: 2 });
+        await runtime.deploy(victim);
+        Portal.Scoreboard.create({
+            type: mod.ScoreboardType.CustomFFA,
+            columns: [{ name: 'Kills', width: 10, value: p => p.kills }, { name: 'Bounty', width: 10 }],
+            refreshInterval: 60,
+        });
+
+        Portal.Scoreboard.setPlayerValues(player, [0, 500]);
+        await runtime.kill(victim, killer);
+
+        assert.deepEqual(runtime.scoreboard.playerValues.get(killer.id), [1, 500]);
+    });
+
+    test('reports sorting on an unknown column', () => {
+        Portal.Scoreboard.create({ type: mod.ScoreboardType.CustomFFA, columns: [{ name: 'Kills', width: 10 }] });
+
+        Portal.Scoreboard.sortBy('Deaths');
+
+        assert.deepEqual(argsOf('SetScoreboardSorting'), []);
+        assert.deepEqual(runtime.errors, ['Scoreboard: Unknown column "Deaths".']);
+    });
+});
+
+describe('Scoreboard sorting', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('sortBy numbers columns like sorting.columnIndex', () => {
+        const columns = [{ name: 'Kills', width: 10 }, { name: 'Deaths', width: 10 }];
+        Portal.Scoreboard.create({ type: mod.ScoreboardType.CustomFFA, columns, sorting: { columnIndex: 1, reverse: true } });
+        const byIndex = runtime.scoreboard.sorting;
+
+        Portal.Scoreboard.sortBy('Deaths', true);
+
+        assert.deepEqual(runtime.scoreboard.sorting, byIndex);
+    });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MockVector } from '../modmock';
+import { argsOf, joinPlayer, runtime } from './harness';
+
+describe('soldier state getters', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('read the boolean, number and vector states', async () => {
+        const { mock, player } = await joinPlayer();
+        mock.flags.IsCrouching = true;
+        mock.numbers.Speed = 6.5;
+        mock.vectors.EyePosition = new MockVector(1, 2, 3);
+        mock.health = 25;
+
+        assert.equal(player.isCrouching, true);
+        assert.equal(player.isProne, false);
+        assert.equal(player.speed, 6.5);
+        assert.equal(player.normalizedHealth, 0.25);
+        assert.deepEqual([player.eyePosition.x, player.eyePosition.y, player.eyePosition.z], [1, 2, 3]);
+    });
+});
+
+describe('soldier state events', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('dispatch on the tick where the state changes', async () => {
+        const { mock, player } = await joinPlayer();
+        let started = 0;
+        player.onStartedSprinting.subscribe(async () => { started++; });
+
+        await runtime.fire('OngoingPlayer', mock);
+        mock.flags.IsSprinting = true;
+        await runtime.fire('OngoingPlayer', mock);
+        await runtime.fire('OngoingPlayer', mock);
+
+        assert.equal(started, 1);
+    });
+
+    test('report each direction of a change to its own event', async () => {
+        const { mock, player } = await joinPlayer();
+        const log: string[] = [];
+        player.onEnteredWater.subscribe(async () => { log.push('entered'); });
+        player.onLeftWater.subscribe(async () => { log.push('left'); });
+        player.onLanded.subscribe(async () => { log.push('landed'); });
+
+        mock.flags.IsInAir = true;
+        await runtime.fire('OngoingPlayer', mock);
+        mock.flags.IsInAir = false;
+        await runtime.fire('OngoingPlayer', mock);
+        mock.flags.IsInWater = true;
+        await runtime.fire('OngoingPlayer', mock);
+        mock.flags.IsInWater = false;
+        await runtime.fire('OngoingPlayer', mock);
+
+        assert.deepEqual(log, ['landed', 'entered', 'left']);
+    });
+
+    test('do not compare against a state seen before resubscribing', async () => {
+        const { mock, player } = await joinPlayer();
+        let started = 0;
+        const handler = async () => { started++; };
+        const first = player.onStartedSprinting.subscribe(handler);
+        await runtime.fire('OngoingPlayer', mock);
+        first.unsubscribe();
+
+        mock.flags.IsSprinting = true;
+        player.onStartedSprinting.subscribe(handler);
+        await runtime.fire('OngoingPlayer', mock);
+
+        assert.equal(started, 0);
+    });
+
+    test('poll the state only while they have subscribers', async () => {
+        const { mock, player } = await joinPlayer();
+        const subscription = player.onStartedReloading.subscribe(async () => {});
+
+        await runtime.fire('OngoingPlayer', mock);
+        const polled = argsOf('GetSoldierState').length;
+        subscription.unsubscribe();
+        runtime.clearLog();
+        await runtime.fire('OngoingPlayer', mock);
+
+        assert.ok(polled > 0);
+        assert.equal(argsOf('GetSoldierState').filter(args => args[1] === mod.SoldierStateBool.IsReloading).length, 0);
+    });
+});
@@ -0,0 +1,167 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MockVector } from '../modmock';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+function mapSpawner(x: number): Portal.VehicleSpawner {
+    const mock = runtime.addObject('VehicleSpawner', new MockVector(x, 0, 0));
+    return Portal.VehicleSpawner.fromNative(mock as unknown as mod.VehicleSpawner);
+}
+
+describe('VehicleSpawner', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('configure applies only the given settings', () => {
+        const spawner = mapSpawner(-500);
+
+        spawner.configure({ autoSpawn: false, respawnTime: 30, timeUntilAbandon: 20 });
+
+        assert.deepEqual(argsOf('SetVehicleSpawnerAutoSpawn'), [[spawner.native, false]]);
+        assert.deepEqual(argsOf('SetVehicleSpawnerRespawnTime'), [[spawner.native, 30]]);
+        assert.deepEqual(argsOf('SetVehicleSpawnerTimeUntilAbandon'), [[spawner.native, 20]]);
+        assert.deepEqual(argsOf('SetVehicleSpawnerVehicleType'), []);
+        assert.deepEqual(argsOf('SetVehicleSpawnerKeepAliveAbandonRadius'), []);
+    });
+
+    test('getById returns the wrapper of a map spawner', () => {
+        const spawner = mapSpawner(-600);
+
+        assert.equal(Portal.VehicleSpawner.getById(spawner.id), spawner);
+        assert.equal(Portal.VehicleSpawner.getById(99999), null);
+    });
+
+    test('getById leaves the wrapper of another object with that id alone', async () => {
+        const { player } = await joinPlayer();
+        let destroyed = 0;
+        player.onDestroyed.subscribe(async () => { destroyed++; });
+
+        assert.equal(Portal.VehicleSpawner.getById(player.id), null);
+
+        assert.equal(player.isValid, true);
+        assert.equal(destroyed, 0);
+    });
+
+    test('reports the vehicles it spawns', async () => {
+        const spawner = mapSpawner(-700);
+        const spawned: Portal.Vehicle[] = [];
+        spawner.onVehicleSpawned.subscribe(async vehicle => { spawned.push(vehicle); });
+
+        spawner.forceSpawn();
+        await runtime.flush();
+
+        assert.equal(spawned.length, 1);
+        assert.equal(spawned[0].spawner, spawner);
+    });
+
+    test('create returns a configurable VehicleSpawner', () => {
+        const spawner = Portal.VehicleSpawner.create(new Portal.Vector(10, 0, 0))!;
+
+        assert.ok(spawner instanceof Portal.VehicleSpawner);
+        spawner.configure({ autoSpawn: false, respawnTime: 30 });
+        assert.deepEqual(argsOf('SetVehicleSpawnerAutoSpawn'), [[spawner.native, false]]);
+        assert.deepEqual(argsOf('SetVehicleSpawnerRespawnTime'), [[spawner.native, 30]]);
+        assert.equal(Portal.VehicleSpawner.getById(spawner.id), spawner);
+    });
+
+    test('a created spawner reports the vehicles it spawns', async () => {
+        const spawner = Portal.VehicleSpawner.create(new Portal.Vector(50, 0, 0))!;
+        const spawned: Portal.Vehicle[] = [];
+        spawner.onVehicleSpawned.subscribe(async vehicle => { spawned.push(vehicle); });
+
+        spawner.forceSpawn();
+        await runtime.flush();
+
+        assert.equal(spawned.length, 1);
+        assert.equal(spawned[0].spawner, spawner);
+    });
+});
+
+describe('VehicleSpawner attribution', () => {
+    async function spawnedBy(x: number, type: string = 'Quadbike'): Promise<Portal.VehicleSpawner | null> {
+        const mock = await runtime.addVehicle(type, 2, new MockVector(x, 0, 0));
+        return Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle).spawner;
+    }
+
+    /** Forces a spawn whose vehicle appears outside the attribution radius. */
+    async function loseForcedSpawn(spawner: Portal.VehicleSpawner): Promise<void> {
+        const mock = runtime.objects.get(spawner.id)!;
+        const position = mock.position;
+        spawner.forceSpawn();
+        mock.position = position.add(new MockVector(0, 0, 100));
+        await runtime.flush();
+        mock.position = position;
+    }
+
+    test('credits the nearest spawner within the radius', async () => {
+        mapSpawner(1000);
+        const nearest = mapSpawner(1008);
+
+        assert.equal(await spawnedBy(1005), nearest);
+        assert.equal(await spawnedBy(1000 + 8 + Portal.VehicleSpawner.attributionRadius + 1), null);
+    });
+
+    test('skips spawners set to another vehicle type', async () => {
+        const tanks = mapSpawner(2000);
+        const quads = mapSpawner(2009);
+        tanks.vehicleType = mod.VehicleList.Abrams;
+
+        assert.equal(await spawnedBy(2001), quads);
+        assert.equal(await spawnedBy(2001, 'Abrams'), tanks);
+    });
+
+    test('a spawner waiting on a forced spawn wins anywhere within the radius', async () => {
+        const forced = mapSpawner(3000);
+        const closer = mapSpawner(3009);
+
+        await loseForcedSpawn(forced);
+
+        assert.equal(await spawnedBy(3008), forced);
+        assert.equal(await spawnedBy(3008), closer);
+    });
+
+    test('a forced spawn stops counting once it expires', async () => {
+        const other = mapSpawner(4010);
+        const forced = mapSpawner(4000);
+
+        await loseForcedSpawn(forced);
+        assert.equal(await spawnedBy(4007), forced);
+
+        await loseForcedSpawn(forced);
+        await runtime.advance(Portal.VehicleSpawner.forcedSpawnTimeout + 1);
+        assert.equal(await spawnedBy(4007), other);
+    });
+});
+
+describe('EmplacementSpawner', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('create, configure and forceSpawn call the emplacement natives', () => {
+        const spawner = Portal.EmplacementSpawner.create(new Portal.Vector(0, 0, 20))!;
+
+        spawner.configure({ emplacementType: mod.StationaryEmplacements.M2MG, autoSpawn: true });
+        spawner.forceSpawn();
+
+        assert.ok(spawner instanceof Portal.EmplacementSpawner);
+        assert.deepEqual(argsOf('SetEmplacementSpawnerType'), [[spawner.native, mod.StationaryEmplacements.M2MG]]);
+        assert.deepEqual(argsOf('SetEmplacementSpawnerAutoSpawn'), [[spawner.native, true]]);
+        assert.deepEqual(argsOf('SetEmplacementSpawnerRespawnTime'), []);
+        assert.deepEqual(argsOf('ForceEmplacementSpawnerSpawn'), [[spawner.native]]);
+    });
+
+    test('getById returns the wrapper while the spawner exists', () => {
+        const spawner = Portal.EmplacementSpawner.create(new Portal.Vector(0, 0, 40))!;
+
+        assert.equal(Portal.EmplacementSpawner.getById(spawner.id), spawner);
+        spawner.destroy();
+        assert.equal(Portal.EmplacementSpawner.getById(spawner.id), null);
+    });
+
+    test('getById leaves the wrapper of another object with that id alone', () => {
+        const vehicleSpawner = mapSpawner(-800);
+
+        assert.equal(Portal.EmplacementSpawner.getById(vehicleSpawner.id), null);
+
+        assert.equal(vehicleSpawner.isValid, true);
+        assert.equal(Portal.VehicleSpawner.getById(vehicleSpawner.id), vehicleSpawner);
+    });
+});
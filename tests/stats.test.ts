@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('PlayerStats', () => {
+    Portal.PlayerStats.register('captures');
+    Portal.PlayerStats.register('lives', 3);
+
+    beforeEach(() => {
+        runtime.clearLog();
+        Portal.PlayerStats.reset();
+    });
+    afterEach(() => { Portal.PlayerStats.keepAfterLeave = false; });
+
+    test('reads the native kills, deaths and score', async () => {
+        const { mock: killer, player } = await joinPlayer({ team: 1 });
+        const { mock: victim } = await joinPlayer({ team: 2 });
+        await runtime.deploy(victim);
+        killer.score = 150;
+
+        await runtime.kill(victim, killer);
+
+        assert.equal(Portal.PlayerStats.kills(player), 1);
+        assert.equal(Portal.PlayerStats.deaths(player), 0);
+        assert.equal(Portal.PlayerStats.score(player), 150);
+        assert.equal(Portal.PlayerStats.deaths(Portal.Player.fromNative(victim as unknown as mod.Player)), 1);
+    });
+
+    test('custom stats start at their initial value and report changes', async () => {
+        const { player } = await joinPlayer();
+        const changes: [string, number, number][] = [];
+        const subscription = Portal.PlayerStats.onStatChanged.subscribe(async (changed, name, value, previous) => {
+            changes.push([name, value, previous]);
+        });
+
+        Portal.PlayerStats.increment(player, 'captures');
+        Portal.PlayerStats.increment(player, 'lives', -1);
+        Portal.PlayerStats.set(player, 'captures', 1);
+        subscription.unsubscribe();
+
+        assert.deepEqual(Portal.PlayerStats.names, ['captures', 'lives']);
+        assert.equal(Portal.PlayerStats.get(player, 'captures'), 1);
+        assert.equal(Portal.PlayerStats.get(player, 'lives'), 2);
+        assert.deepEqual(changes, [['captures', 1, 0], ['lives', 2, 3]]);
+    });
+
+    test('reports stats that were not registered', async () => {
+        const { player } = await joinPlayer();
+
+        Portal.PlayerStats.set(player, 'revives', 1);
+
+        assert.equal(Portal.PlayerStats.get(player, 'revives'), 0);
+        assert.deepEqual(runtime.errors, [
+            'PlayerStats: Unknown stat "revives". Register it first.',
+            'PlayerStats: Unknown stat "revives". Register it first.',
+        ]);
+    });
+
+    test('track increments a stat from an event', async () => {
+        const { mock: victim, player } = await joinPlayer({ team: 1 });
+        const { mock: killer, player: credited } = await joinPlayer({ team: 2 });
+        await runtime.deploy(victim);
+        const tracking = Portal.PlayerStats.track('captures', Portal.Game.onAnyPlayerDied, (died, killedBy) => killedBy, () => 5);
+
+        await runtime.kill(victim, killer);
+        tracking.unsubscribe();
+        await runtime.deploy(victim);
+        await runtime.kill(victim, killer);
+
+        assert.equal(Portal.PlayerStats.get(credited, 'captures'), 5);
+        assert.equal(Portal.PlayerStats.get(player, 'captures'), 0);
+    });
+
+    test('reset puts one stat or every stat back to its initial value', async () => {
+        const { player } = await joinPlayer();
+        Portal.PlayerStats.set(player, 'captures', 4);
+        Portal.PlayerStats.set(player, 'lives', 1);
+
+        Portal.PlayerStats.reset('lives');
+        assert.equal(Portal.PlayerStats.get(player, 'captures'), 4);
+        assert.equal(Portal.PlayerStats.get(player, 'lives'), 3);
+        Portal.PlayerStats.reset();
+
+        assert.equal(Portal.PlayerStats.get(player, 'captures'), 0);
+    });
+
+    test('clears the stats of a player who leaves', async () => {
+        const { mock, player } = await joinPlayer();
+        Portal.PlayerStats.increment(player, 'captures', 2);
+
+        await runtime.leave(mock);
+        await runtime.rejoin(mock);
+
+        const rejoined = Portal.Player.fromNative(mock as unknown as mod.Player);
+        assert.equal(Portal.PlayerStats.get(rejoined, 'captures'), 0);
+    });
+
+    test('keeps the stats by id when keepAfterLeave is set', async () => {
+        Portal.PlayerStats.keepAfterLeave = true;
+        const { mock, player } = await joinPlayer();
+        Portal.PlayerStats.increment(player, 'captures', 2);
+
+        await runtime.leave(mock);
+        await runtime.rejoin(mock);
+
+        const rejoined = Portal.Player.fromNative(mock as unknown as mod.Player);
+        assert.equal(Portal.PlayerStats.get(rejoined, 'captures'), 2);
+    });
+
+    test('does not report a player with a known id as rejoining', async () => {
+        const { mock } = await joinPlayer();
+        await runtime.leave(mock);
+        let rejoins = 0;
+        const subscription = Portal.Game.onPlayerJoined.subscribe(async player => {
+            player.onPlayerRejoinGame.subscribe(async () => { rejoins++; });
+        });
+
+        await runtime.rejoin(mock);
+        subscription.unsubscribe();
+
+        assert.equal(rejoins, 0);
+    });
+});
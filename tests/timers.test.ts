@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('Timers', () => {
+    beforeEach(() => runtime.clearLog());
+    afterEach(() => {
+        Portal.Timers.cancelAll();
+        Portal.Game.pauseTimer(false);
+    });
+
+    test('after calls the callback once when the delay has passed', async () => {
+        let calls = 0;
+        const timer = Portal.Timers.after(2, () => { calls++; });
+
+        await runtime.advance(1.9);
+        assert.equal(calls, 0);
+        await runtime.advance(0.2);
+        await runtime.advance(5);
+
+        assert.equal(calls, 1);
+        assert.equal(timer.isActive, false);
+        assert.deepEqual(Portal.Timers.active, []);
+    });
+
+    test('every repeats until cancelled', async () => {
+        let calls = 0;
+        const timer = Portal.Timers.every(1, () => { calls++; });
+
+        await runtime.advance(3.05);
+        timer.cancel();
+        await runtime.advance(3);
+
+        assert.equal(calls, 3);
+        assert.equal(timer.isActive, false);
+    });
+
+    test('every raises intervals below the resolution to it', async () => {
+        let calls = 0;
+        const timer = Portal.Timers.every(0, () => { calls++; });
+
+        await runtime.advance(1.05);
+        timer.cancel();
+
+        assert.ok(calls >= 9 && calls <= 10, `called ${calls} times`);
+    });
+
+    test('a paused timer stops counting down until resumed', async () => {
+        let calls = 0;
+        const timer = Portal.Timers.after(1, () => { calls++; });
+
+        await runtime.advance(0.5);
+        timer.pause();
+        await runtime.advance(5);
+        assert.equal(calls, 0);
+
+        timer.resume();
+        await runtime.advance(0.55);
+        assert.equal(calls, 1);
+    });
+
+    test('pauseWithGame follows Game.pauseTimer', async () => {
+        let calls = 0;
+        const timer = Portal.Timers.after(1, () => { calls++; }, { pauseWithGame: true });
+
+        Portal.Game.pauseTimer(true);
+        await runtime.advance(3);
+        assert.equal(timer.isPaused, true);
+        assert.equal(calls, 0);
+
+        Portal.Game.pauseTimer(false);
+        await runtime.advance(1.05);
+        assert.equal(calls, 1);
+    });
+
+    test('a timer owned by a player is cancelled when the player dies', async () => {
+        const { mock, player } = await joinPlayer();
+        await runtime.deploy(mock);
+        let calls = 0;
+        const timer = Portal.Timers.every(1, () => { calls++; }, { owner: player });
+
+        await runtime.kill(mock);
+        await runtime.advance(3);
+
+        assert.equal(calls, 0);
+        assert.equal(timer.isActive, false);
+    });
+
+    test('reports callback errors and keeps repeating', async () => {
+        let calls = 0;
+        Portal.Timers.every(1, () => {
+            calls++;
+            throw new Error('tick failed');
+        });
+
+        await runtime.advance(2.05);
+
+        assert.equal(calls, 2);
+        assert.deepEqual(runtime.errors, ['Error in timer callback: Error: tick failed', 'Error in timer callback: Error: tick failed']);
+    });
+});
+
+describe('CancellationToken', () => {
+    test('wait rejects as soon as the token is cancelled', async () => {
+        const token = new Portal.CancellationToken();
+        let cancelledEvents = 0;
+        token.onCancelled.subscribe(async () => { cancelledEvents++; });
+
+        const wait = token.wait(10);
+        await runtime.advance(1);
+        token.cancel();
+        token.cancel();
+
+        await assert.rejects(wait, Portal.CancelledError);
+        assert.equal(token.isCancelled, true);
+        assert.equal(cancelledEvents, 1);
+        assert.throws(() => token.throwIfCancelled(), Portal.CancelledError);
+    });
+});
+
+describe('Tasks', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('a task completes when its body finishes', async () => {
+        const task = Portal.Tasks.start(async token => { await token.wait(1); }, { name: 'countdown' });
+        assert.deepEqual(Portal.Tasks.running.map(running => running.name), ['countdown']);
+
+        await runtime.advance(1);
+
+        assert.equal(await task.done, 'completed');
+        assert.deepEqual(Portal.Tasks.running, []);
+    });
+
+    test('cancel stops the task at its next wait', async () => {
+        const log: string[] = [];
+        const task = Portal.Tasks.start(async token => {
+            await token.wait(1);
+            log.push('first');
+            await token.wait(1);
+            log.push('second');
+        });
+
+        await runtime.advance(1.5);
+        task.cancel();
+        await runtime.advance(5);
+
+        assert.equal(await task.done, 'cancelled');
+        assert.deepEqual(log, ['first']);
+    });
+
+    test('a throwing body fails the task and is reported', async () => {
+        const task = Portal.Tasks.start(async () => { throw new Error('broken'); }, { name: 'broken flow' });
+
+        assert.equal(await task.done, 'failed');
+        assert.deepEqual(runtime.errors, ['Error in task "broken flow": Error: broken']);
+    });
+
+    test('a task owned by a player is cancelled when the player leaves', async () => {
+        const { mock, player } = await joinPlayer();
+        const task = Portal.Tasks.start(async token => { await token.wait(60); }, { owner: player });
+
+        await runtime.leave(mock);
+
+        assert.equal(await task.done, 'cancelled');
+    });
+
+    test('every running task is cancelled when the game mode ends', async () => {
+        const task = Portal.Tasks.start(async token => { await token.wait(60); });
+
+        await runtime.fire('OnGameModeEnding');
+
+        assert.equal(await task.done, 'cancelled');
+    });
+});
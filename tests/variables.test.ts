@@ -0,0 +1,125 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+describe('Variable', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('reads and writes a global slot and reports the change', () => {
+        const score = Portal.Variable.global<number>(0);
+        const changes: [number, number][] = [];
+        score.onChanged.subscribe(async (value, previous) => { changes.push([value, previous]); });
+
+        score.value = 5;
+        score.value = 8;
+
+        assert.equal(score.value, 8);
+        assert.deepEqual(changes, [[5, 0], [8, 5]]);
+        assert.equal(argsOf('GlobalVariable')[0][0], 0);
+    });
+
+    test('shares one wrapper per slot', async () => {
+        const { player } = await joinPlayer();
+
+        assert.equal(Portal.Variable.global(1), Portal.Variable.global(1));
+        assert.equal(Portal.Variable.forObject(player, 0), Portal.Variable.forObject(player, 0));
+        assert.notEqual(Portal.Variable.forObject(player, 0), Portal.Variable.global(0));
+    });
+
+    test('requesting a slot as the other kind keeps the cached wrapper and reports it', () => {
+        const single = Portal.Variable.global<number>(6);
+        let changes = 0;
+        single.onChanged.subscribe(async () => { changes++; });
+
+        Portal.Variable.globalArray<number>(6);
+        Portal.Variable.global<number>(6).value = 1;
+
+        assert.equal(Portal.Variable.global(6), single);
+        assert.equal(changes, 1);
+        assert.deepEqual(runtime.errors, ['Variable slot 6 is already used as a single value.']);
+    });
+
+    test('object slots belong to their owner', async () => {
+        const { mock, player } = await joinPlayer();
+        const { player: other } = await joinPlayer();
+
+        Portal.Variable.forObject<number>(player, 2).value = 40;
+
+        assert.equal(Portal.Variable.forObject<number>(other, 2).value, 0);
+        assert.deepEqual(argsOf('ObjectVariable')[0], [mock, 2]);
+    });
+
+    test('chaseOverTime resolves with true and reports the change when the limit is reached', async () => {
+        const fuel = Portal.Variable.global<number>(3);
+        const changes: [number, number][] = [];
+        fuel.onChanged.subscribe(async (value, previous) => { changes.push([value, previous]); });
+        let completed: boolean | undefined;
+
+        fuel.chaseOverTime(100, 10).then(result => { completed = result; });
+        await runtime.advance(5);
+        assert.equal(fuel.value, 50);
+        assert.equal(completed, undefined);
+        await runtime.advance(5);
+
+        assert.equal(completed, true);
+        assert.equal(fuel.value, 100);
+        assert.deepEqual(changes, [[100, 0]]);
+    });
+
+    test('chaseAtRate takes the time the rate needs', async () => {
+        const heat = Portal.Variable.global<number>(4);
+        heat.value = 10;
+        let completed: boolean | undefined;
+
+        heat.chaseAtRate(0, -2).then(result => { completed = result; });
+        await runtime.advance(4.9);
+        assert.equal(completed, undefined);
+        await runtime.advance(0.1);
+
+        assert.equal(completed, true);
+        assert.equal(heat.value, 0);
+    });
+
+    test('stopChasing resolves the pending chase with false', async () => {
+        const meter = Portal.Variable.global<number>(5);
+        let completed: boolean | undefined;
+
+        meter.chaseOverTime(10, 10).then(result => { completed = result; });
+        await runtime.advance(3);
+        meter.stopChasing();
+        await runtime.advance(10);
+
+        assert.equal(completed, false);
+        assert.equal(meter.value, 3);
+    });
+});
+
+describe('ArrayVariable', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('stores values by index and lists them', () => {
+        const spawns = Portal.Variable.globalArray<number>(10);
+        let changes = 0;
+        spawns.onChanged.subscribe(async () => { changes++; });
+
+        spawns.set(0, 7);
+        spawns.set(1, 9);
+
+        assert.equal(spawns.length, 2);
+        assert.equal(spawns.get(1), 9);
+        assert.deepEqual(spawns.toArray(), [7, 9]);
+        assert.equal(changes, 2);
+        assert.deepEqual(argsOf('SetVariableAtIndex').map(args => args.slice(1)), [[0, 7], [1, 9]]);
+    });
+
+    test('object arrays belong to their owner', async () => {
+        const { player } = await joinPlayer();
+        const { player: other } = await joinPlayer();
+
+        Portal.Variable.objectArray<number>(player, 0).set(0, 1);
+        Portal.Variable.objectArray<number>(other, 0).set(0, 2);
+
+        assert.deepEqual(Portal.Variable.objectArray<number>(player, 0).toArray(), [1]);
+        assert.deepEqual(Portal.Variable.objectArray<number>(other, 0).toArray(), [2]);
+    });
+});
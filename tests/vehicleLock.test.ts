@@ -0,0 +1,109 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { argsOf, joinPlayer, Portal, runtime } from './harness';
+
+describe('VehicleLock', () => {
+    beforeEach(() => runtime.clearLog());
+
+    async function vehicleWithSeats(seats: number = 2) {
+        const mock = await runtime.addVehicle('Quadbike', seats);
+        return { mock, vehicle: Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle) };
+    }
+
+    test('ejects anyone but the holder from the locked seats', async () => {
+        const { mock, vehicle } = await vehicleWithSeats();
+        const { mock: ownerMock, player: owner } = await joinPlayer({ team: 1 });
+        const { mock: otherMock, player: other } = await joinPlayer({ team: 1 });
+        const message = mod.Message('Reserved');
+        const lock = vehicle.lockTo(owner, { message });
+        const denied: [Portal.Player, number][] = [];
+        lock.onDenied.subscribe(async (player, seat) => { denied.push([player, seat]); });
+
+        await runtime.enterVehicle(otherMock, mock, 1);
+        await runtime.enterVehicle(ownerMock, mock, 0);
+
+        assert.equal(otherMock.vehicle, null);
+        assert.equal(ownerMock.vehicle, mock);
+        assert.deepEqual(denied, [[other, 1]]);
+        assert.deepEqual(argsOf('DisplayNotificationMessage'), [[message, otherMock]]);
+        assert.deepEqual(vehicle.locks, [lock]);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('ejects current occupants and only guards the given seats', async () => {
+        const { mock, vehicle } = await vehicleWithSeats(3);
+        const { player: owner } = await joinPlayer();
+        const { mock: driver } = await joinPlayer();
+        const { mock: passenger } = await joinPlayer();
+        await runtime.enterVehicle(driver, mock, 0);
+        await runtime.enterVehicle(passenger, mock, 2);
+
+        vehicle.lockTo(owner, { seats: [0] });
+        await runtime.flush();
+
+        assert.equal(driver.vehicle, null);
+        assert.equal(passenger.vehicle, mock);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('a team lock lets the whole team in', async () => {
+        const { mock, vehicle } = await vehicleWithSeats();
+        const { mock: friend } = await joinPlayer({ team: 1 });
+        const { mock: enemy } = await joinPlayer({ team: 2 });
+        vehicle.lockTo(Portal.Team.fromNative(mod.GetTeam(1)));
+
+        await runtime.enterVehicle(friend, mock, 0);
+        await runtime.enterVehicle(enemy, mock, 1);
+
+        assert.equal(friend.vehicle, mock);
+        assert.equal(enemy.vehicle, null);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('is released when the holding player dies', async () => {
+        const { mock, vehicle } = await vehicleWithSeats();
+        const { mock: ownerMock, player: owner } = await joinPlayer();
+        const { mock: other } = await joinPlayer();
+        await runtime.deploy(ownerMock);
+        const lock = vehicle.lockTo(owner);
+        let released = 0;
+        lock.onReleased.subscribe(async () => { released++; });
+
+        await runtime.kill(ownerMock);
+        await runtime.enterVehicle(other, mock, 0);
+
+        assert.equal(lock.isReleased, true);
+        assert.equal(released, 1);
+        assert.deepEqual(vehicle.locks, []);
+        assert.equal(other.vehicle, mock);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('with releaseOnDeath off, is kept across a death and released when the holder leaves', async () => {
+        const { vehicle, mock } = await vehicleWithSeats();
+        const { mock: ownerMock, player: owner } = await joinPlayer();
+        await runtime.deploy(ownerMock);
+        const lock = vehicle.lockTo(owner, { releaseOnDeath: false });
+
+        await runtime.kill(ownerMock);
+        assert.equal(lock.isReleased, false);
+        await runtime.leave(ownerMock);
+
+        assert.equal(lock.isReleased, true);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('unlock releases every lock on the vehicle', async () => {
+        const { vehicle, mock } = await vehicleWithSeats();
+        const { player } = await joinPlayer();
+        const first = vehicle.lockTo(player, { seats: [0] });
+        const second = vehicle.lockTo(Portal.Team.fromNative(mod.GetTeam(1)), { seats: [1] });
+
+        vehicle.unlock();
+
+        assert.equal(first.isReleased, true);
+        assert.equal(second.isReleased, true);
+        assert.deepEqual(vehicle.locks, []);
+        await runtime.destroyVehicle(mock);
+    });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MockVector } from '../modmock';
+import { joinPlayer, Portal, runtime } from './harness';
+
+describe('Vehicle', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('lists its seats, driver, occupants and team', async () => {
+        const mock = await runtime.addVehicle('Abrams', 3);
+        const vehicle = Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle);
+        const { mock: driverMock, player: driver } = await joinPlayer({ team: 2 });
+        const { mock: gunnerMock, player: gunner } = await joinPlayer({ team: 2 });
+
+        assert.equal(vehicle.isOccupied, false);
+        assert.equal(vehicle.team, Portal.Team.fromNative(mod.GetTeam(0)));
+        await runtime.enterVehicle(driverMock, mock, 0);
+        await runtime.enterVehicle(gunnerMock, mock, 2);
+
+        assert.equal(vehicle.seatCount, 3);
+        assert.deepEqual(vehicle.seats, [{ index: 0, occupant: driver }, { index: 1, occupant: null }, { index: 2, occupant: gunner }]);
+        assert.equal(vehicle.driver, driver);
+        assert.deepEqual(vehicle.occupants, [driver, gunner]);
+        assert.equal(vehicle.team, Portal.Team.fromNative(mod.GetTeam(2)));
+        assert.equal(vehicle.is(mod.VehicleList.Abrams), true);
+        assert.deepEqual(Portal.Vehicle.getAll().filter(v => v === vehicle), [vehicle]);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('reads the velocity and facing direction', async () => {
+        const mock = await runtime.addVehicle();
+        mock.velocity = new MockVector(0, 0, 12);
+        const vehicle = Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle);
+
+        assert.equal(vehicle.velocity.z, 12);
+        assert.equal(vehicle.facingDirection.z, 1);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('ejectAll forces every occupant out', async () => {
+        const mock = await runtime.addVehicle('Quadbike', 2);
+        const vehicle = Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle);
+        const { mock: first } = await joinPlayer();
+        const { mock: second } = await joinPlayer();
+        await runtime.enterVehicle(first, mock, 0);
+        await runtime.enterVehicle(second, mock, 1);
+
+        vehicle.ejectAll();
+        await runtime.flush();
+
+        assert.equal(vehicle.isOccupied, false);
+        assert.equal(first.vehicle, null);
+        await runtime.destroyVehicle(mock);
+    });
+});
+
+describe('Player vehicle control', () => {
+    beforeEach(() => runtime.clearLog());
+
+    test('vehicle and seat follow the player in and out', async () => {
+        const mock = await runtime.addVehicle('Quadbike', 2);
+        const vehicle = Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle);
+        const { player } = await joinPlayer();
+
+        assert.equal(player.vehicle, null);
+        assert.equal(player.seat, -1);
+        player.forceIntoSeat(vehicle, 1);
+        await runtime.flush();
+        assert.equal(player.vehicle, vehicle);
+        assert.equal(player.seat, 1);
+        player.exitVehicle();
+        await runtime.flush();
+
+        assert.equal(player.vehicle, null);
+        await runtime.destroyVehicle(mock);
+    });
+
+    test('routes the enter and exit events to the player and the vehicle', async () => {
+        const mock = await runtime.addVehicle('Quadbike', 2);
+        const vehicle = Portal.Vehicle.fromNative(mock as unknown as mod.Vehicle);
+        const { mock: playerMock, player } = await joinPlayer();
+        const log: string[] = [];
+        player.onPlayerEnterVehicle.subscribe(async entered => { log.push(`entered ${entered === vehicle}`); });
+        player.onEnterVehicleSeat.subscribe(async (entered, seat) => { log.push(`seat ${seat}`); });
+        player.onPlayerExitVehicle.subscribe(async () => { log.push('exited'); });
+
+        await runtime.enterVehicle(playerMock, mock, 1);
+        await runtime.exitVehicle(playerMock);
+
+        assert.deepEqual(log, ['entered true', 'seat 1', 'exited']);
+        await runtime.destroyVehicle(mock);
+    });
+});
@@ -2,13 +2,27 @@ namespace Portal {
     //#region Utilities
     /**
      * A simple event dispatcher class.
+     * Handlers with a higher priority run first; handlers with equal priority run in subscription order.
      */
     export class Event<T extends (...args: any[]) => any> {
         protected handlers: T[] = [];
+        private priorities = new Map<T, number>();
+        private currentDispatch: { stopped: boolean } | null = null;
 
-        public subscribe(handler: T): { unsubscribe: () => void } {
+        /**
+         * Subscribes a handler to this event.
+         * @param handler The function to call on dispatch.
+         * @param priority Handlers with a higher priority are called first. Defaults to 0.
+         */
+        public subscribe(handler: T, priority: number = 0): { unsubscribe: () => void } {
             if (!this.handlers.includes(handler)) {
-                this.handlers.push(handler);
+                const index = this.handlers.findIndex(existing => this.priorities.get(existing)! < priority);
+                if (index > -1) {
+                    this.handlers.splice(index, 0, handler);
+                } else {
+                    this.handlers.push(handler);
+                }
+                this.priorities.set(handler, priority);
             }
             return { unsubscribe: () => this.unsubscribe(handler) };
         }
@@ -17,17 +31,426 @@ namespace Portal {
             const index = this.handlers.indexOf(handler);
             if (index > -1) {
                 this.handlers.splice(index, 1);
+                this.priorities.delete(handler);
+            }
+        }
+
+        /**
+         * Marks the event being dispatched as handled, so the remaining lower-priority handlers are skipped.
+         * Must be called from a handler before its first `await`.
+         */
+        public stopPropagation(): void {
+            if (this.currentDispatch) {
+                this.currentDispatch.stopped = true;
             }
         }
 
+        /**
+         * Calls every handler without waiting for them. Rejections from async handlers are still reported.
+         */
         public dispatch(...args: Parameters<T>): void {
-            for (const handler of this.handlers) {
+            const context = { stopped: false };
+            for (const handler of [...this.handlers]) {
+                const previous = this.currentDispatch;
+                this.currentDispatch = context;
+                try {
+                    const result = handler(...args);
+                    if (Event.isPromise(result)) {
+                        result.catch(e => Event.reportError(e));
+                    }
+                } catch (e) {
+                    Event.reportError(e);
+                } finally {
+                    this.currentDispatch = previous;
+                }
+                if (context.stopped) {
+                    break;
+                }
+            }
+        }
+
+        /**
+         * Calls every handler and waits for them to finish.
+         * Errors and rejections are reported and never reject the returned promise.
+         * @param mode 'sequential' awaits each handler before calling the next, 'parallel' starts them all at once.
+         * @returns A promise that resolves once all handlers have finished.
+         */
+        public async dispatchAsync(mode: DispatchMode, ...args: Parameters<T>): Promise<void> {
+            const context = { stopped: false };
+            const pending: Promise<void>[] = [];
+            for (const handler of [...this.handlers]) {
+                const previous = this.currentDispatch;
+                this.currentDispatch = context;
+                // The synchronous part of the handler runs here, so stopPropagation() is seen below.
+                const promise = Event.invokeAsync(handler, args);
+                this.currentDispatch = previous;
+
+                if (mode === 'parallel') {
+                    pending.push(promise);
+                } else {
+                    await promise;
+                }
+                if (context.stopped) {
+                    break;
+                }
+            }
+            await Promise.all(pending);
+        }
+
+        /**
+         * Subscribes a handler that is removed right before its first call.
+         * @param handler The function to call on the next dispatch.
+         * @param priority Handlers with a higher priority are called first. Defaults to 0.
+         */
+        public once(handler: T, priority: number = 0): { unsubscribe: () => void } {
+            const wrapper = ((...args: Parameters<T>) => {
+                this.unsubscribe(wrapper);
+                return handler(...args);
+            }) as T;
+            return this.subscribe(wrapper, priority);
+        }
+
+        /**
+         * Waits for the next dispatch of this event.
+         * @param timeout Optional time in seconds after which the promise resolves with null.
+         * @param token Optional token; the promise rejects with a {@link CancelledError} when it is cancelled.
+         * @returns A promise resolving with the dispatched arguments.
+         */
+        public next(timeout?: undefined, token?: CancellationToken): Promise<Parameters<T>>;
+        public next(timeout: number, token?: CancellationToken): Promise<Parameters<T> | null>;
+        public next(timeout?: number, token?: CancellationToken): Promise<Parameters<T> | null> {
+            return new Promise((resolve, reject) => {
+                if (token?.isCancelled) {
+                    reject(new CancelledError());
+                    return;
+                }
+
+                let settled = false;
+                const settle = (): boolean => {
+                    if (settled) {
+                        return false;
+                    }
+                    settled = true;
+                    subscription.unsubscribe();
+                    cancelSubscription?.unsubscribe();
+                    return true;
+                };
+
+                const subscription = this.once(((...args: Parameters<T>) => {
+                    if (settle()) {
+                        resolve(args);
+                    }
+                }) as unknown as T);
+
+                const cancelSubscription = token?.onCancelled.subscribe(async () => {
+                    if (settle()) {
+                        reject(new CancelledError());
+                    }
+                });
+
+                if (timeout !== undefined) {
+                    mod.Wait(timeout).then(() => {
+                        if (settle()) {
+                            resolve(null);
+                        }
+                    });
+                }
+            });
+        }
+
+        /**
+         * Creates an event that only fires when the predicate accepts the dispatched arguments.
+         * @param predicate The condition the arguments must satisfy.
+         */
+        public filter(predicate: (...args: Parameters<T>) => boolean): Event<T> {
+            return new DerivedEvent<T, T>(this, (target, args) => {
+                if (predicate(...args)) {
+                    target.dispatch(...args);
+                }
+            });
+        }
+
+        /**
+         * Creates an event that fires with a single value computed from the dispatched arguments.
+         * @param selector The function that maps the arguments to the new value.
+         */
+        public map<R>(selector: (...args: Parameters<T>) => R): Event<(value: R) => Promise<void>> {
+            return new DerivedEvent<T, (value: R) => Promise<void>>(this, (target, args) => {
+                target.dispatch(selector(...args));
+            });
+        }
+
+        /**
+         * Creates an event that fires for the first `count` dispatches only, then detaches from this event.
+         * @param count The number of dispatches to forward.
+         */
+        public take(count: number): Event<T> {
+            let remaining = count;
+            return new DerivedEvent<T, T>(this, (target, args) => {
+                if (remaining <= 0) {
+                    return;
+                }
+                remaining--;
+                target.dispatch(...args);
+                if (remaining === 0) {
+                    target.complete();
+                }
+            });
+        }
+
+        /**
+         * Creates an event that fires once dispatches have stopped for the given time, with the latest arguments.
+         * @param seconds The quiet period in seconds.
+         */
+        public debounce(seconds: number): Event<T> {
+            let generation = 0;
+            return new DerivedEvent<T, T>(this, async (target, args) => {
+                const current = ++generation;
+                await mod.Wait(seconds);
+                if (current === generation) {
+                    target.dispatch(...args);
+                }
+            });
+        }
+
+        private static async invokeAsync<T extends (...args: any[]) => any>(handler: T, args: Parameters<T>): Promise<void> {
+            try {
+                await handler(...args);
+            } catch (e) {
+                Event.reportError(e);
+            }
+        }
+
+        private static isPromise(value: any): value is Promise<any> {
+            return !!value && typeof value.then === 'function' && typeof value.catch === 'function';
+        }
+
+        private static reportError(e: any): void {
+            mod.SendErrorReport(mod.Message(`Error in event handler: ${e}`));
+        }
+    }
+
+    /**
+     * How {@link Event.dispatchAsync} runs handlers: one after another, or all at once.
+     */
+    export type DispatchMode = 'sequential' | 'parallel';
+
+    /**
+     * An event produced by an operator such as {@link Event.filter}.
+     * It only listens to its source while it has subscribers of its own.
+     */
+    class DerivedEvent<TSource extends (...args: any[]) => any, T extends (...args: any[]) => any> extends Event<T> {
+        private source: Event<TSource>;
+        private forward: (target: DerivedEvent<TSource, T>, args: Parameters<TSource>) => void;
+        private onConnect: (() => void) | undefined;
+        private connected = false;
+        private completed = false;
+
+        /**
+         * @param onConnect Called each time the event starts listening to the source again, to reset state kept by `forward`.
+         */
+        constructor(source: Event<TSource>, forward: (target: DerivedEvent<TSource, T>, args: Parameters<TSource>) => void, onConnect?: () => void) {
+            super();
+            this.source = source;
+            this.forward = forward;
+            this.onConnect = onConnect;
+        }
+
+        private readonly sourceHandler = ((...args: Parameters<TSource>) => {
+            this.forward(this, args);
+        }) as unknown as TSource;
+
+        public subscribe(handler: T, priority: number = 0): { unsubscribe: () => void } {
+            const subscription = super.subscribe(handler, priority);
+            if (!this.connected && !this.completed) {
+                this.onConnect?.();
+                this.source.subscribe(this.sourceHandler);
+                this.connected = true;
+            }
+            return subscription;
+        }
+
+        public unsubscribe(handler: T): void {
+            super.unsubscribe(handler);
+            if (this.handlers.length === 0 && this.connected) {
+                this.source.unsubscribe(this.sourceHandler);
+                this.connected = false;
+            }
+        }
+
+        /** @internal */
+        public complete(): void {
+            this.completed = true;
+            if (this.connected) {
+                this.source.unsubscribe(this.sourceHandler);
+                this.connected = false;
+            }
+        }
+    }
+
+    /**
+     * Anything that holds resources which must be released explicitly.
+     */
+    export interface Disposable {
+        dispose(): void;
+    }
+
+    /**
+     * Collects event subscriptions and other disposables so they can be released together,
+     * either manually or when the lifetime the scope is bound to ends.
+     */
+    export class SubscriptionScope implements Disposable {
+        private releases: (() => void)[] = [];
+        private _isDisposed = false;
+
+        public onDisposed = new Event<() => Promise<void>>();
+
+        public get isDisposed(): boolean {
+            return this._isDisposed;
+        }
+
+        /**
+         * Adds a subscription or disposable to the scope. If the scope is already disposed, it is released immediately.
+         * @param item The result of `Event.subscribe`, or any {@link Disposable}.
+         * @returns The same item, for chaining.
+         */
+        public add<S extends { unsubscribe: () => void } | Disposable>(item: S): S {
+            const release = 'unsubscribe' in item ? () => item.unsubscribe() : () => (item as Disposable).dispose();
+            if (this._isDisposed) {
+                release();
+            } else {
+                this.releases.push(release);
+            }
+            return item;
+        }
+
+        /**
+         * Subscribes to an event and adds the subscription to the scope.
+         * @param event The event to subscribe to.
+         * @param handler The function to call on dispatch.
+         * @param priority Handlers with a higher priority are called first. Defaults to 0.
+         */
+        public subscribe<T extends (...args: any[]) => any>(event: Event<T>, handler: T, priority: number = 0): { unsubscribe: () => void } {
+            return this.add(event.subscribe(handler, priority));
+        }
+
+        /**
+         * Disposes the scope the next time the given event is dispatched.
+         * @param event The event marking the end of the scope, e.g. a custom round-ended event.
+         */
+        public disposeOn(event: Event<any>): this {
+            this.subscribe(event, async () => this.dispose());
+            return this;
+        }
+
+        public dispose(): void {
+            if (this._isDisposed) {
+                return;
+            }
+            this._isDisposed = true;
+
+            const releases = this.releases;
+            this.releases = [];
+            for (const release of releases) {
                 try {
-                    handler(...args);
+                    release();
                 } catch (e) {
-                    mod.SendErrorReport(mod.Message(`Error in event handler: ${e}`));
+                    mod.SendErrorReport(mod.Message(`Error while disposing scope: ${e}`));
                 }
             }
+            this.onDisposed.dispatch();
+        }
+
+        /**
+         * Creates a scope that ends when the player dies or leaves the game.
+         * @param player The player whose current life bounds the scope.
+         */
+        public static forLife(player: Player): SubscriptionScope {
+            return SubscriptionScope.forSession(player).disposeOn(player.onPlayerDied);
+        }
+
+        /**
+         * Creates a scope that ends when the player leaves the game.
+         * @param player The player whose session bounds the scope.
+         */
+        public static forSession(player: Player): SubscriptionScope {
+            const playerId = player.id;
+            return new SubscriptionScope().disposeOn(Game.onPlayerLeft.filter(id => id === playerId));
+        }
+
+        /**
+         * Creates a scope that ends when the object is destroyed.
+         * @param object The object whose lifetime bounds the scope.
+         */
+        public static forObject(object: GameObject): SubscriptionScope {
+            return new SubscriptionScope().disposeOn(object.onDestroyed);
+        }
+
+        /**
+         * Creates a scope that ends when the owner goes away: a player dies or leaves, any other object is destroyed.
+         * @param owner The player or object whose lifetime bounds the scope.
+         */
+        public static forOwner(owner: GameObject): SubscriptionScope {
+            return owner instanceof Player ? SubscriptionScope.forLife(owner) : SubscriptionScope.forObject(owner);
+        }
+
+        /**
+         * Creates a scope that ends the next time the given event is dispatched, e.g. a round boundary.
+         * @param event The event marking the end of the scope.
+         */
+        public static until(event: Event<any>): SubscriptionScope {
+            return new SubscriptionScope().disposeOn(event);
+        }
+    }
+
+    /**
+     * Thrown by cancellable waits when their {@link CancellationToken} is cancelled.
+     */
+    export class CancelledError extends Error {
+        constructor(message: string = 'The operation was cancelled.') {
+            super(message);
+            this.name = 'CancelledError';
+            Object.setPrototypeOf(this, CancelledError.prototype);
+        }
+    }
+
+    /**
+     * Signals that a long-running flow should stop. Passed to every function started by {@link Tasks.start}.
+     */
+    export class CancellationToken {
+        private _isCancelled = false;
+        private resolveCancelled!: () => void;
+        private readonly cancelled = new Promise<void>(resolve => this.resolveCancelled = resolve);
+
+        public onCancelled = new Event<() => Promise<void>>();
+
+        public get isCancelled(): boolean {
+            return this._isCancelled;
+        }
+
+        public cancel(): void {
+            if (this._isCancelled) {
+                return;
+            }
+            this._isCancelled = true;
+            this.resolveCancelled();
+            this.onCancelled.dispatch();
+        }
+
+        public throwIfCancelled(): void {
+            if (this._isCancelled) {
+                throw new CancelledError();
+            }
+        }
+
+        /**
+         * Waits like mod.Wait, but rejects with a {@link CancelledError} as soon as the token is cancelled.
+         * @param seconds The time to wait in seconds.
+         */
+        public async wait(seconds: number): Promise<void> {
+            this.throwIfCancelled();
+            await Promise.race([mod.Wait(seconds), this.cancelled]);
+            this.throwIfCancelled();
         }
     }
     //#endregion
@@ -38,21 +461,21 @@ namespace Portal {
     export abstract class GameObject {
         protected _native: mod.Object;
         protected static instanceMap = new Map<number, GameObject>();
+        private readonly _instanceId: number;
+        private _released = false;
+        private _data: DataStore | null = null;
 
         protected constructor(native: mod.Object) {
             this._native = native;
             const id = mod.GetObjId(this._native);
+            this._instanceId = id;
             if (id !== -1 && !GameObject.instanceMap.has(id)) {
                 GameObject.instanceMap.set(id, this);
             }
         }
 
         public static fromNative(native: mod.Object): GameObject {
-            const id = mod.GetObjId(native);
-            if (id !== -1 && GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id)!;
-            }
-
+            // Each subclass checks that a cached wrapper is of its own class, so recycled ids are never mixed up.
             if (mod.IsType(native, mod.Types.Player)) {
                 return Player.fromNative(native as mod.Player);
             }
@@ -95,6 +518,9 @@ namespace Portal {
             if (mod.IsType(native, mod.Types.LootSpawner)) {
                 return LootSpawner.fromNative(native as mod.LootSpawner);
             }
+            if (mod.IsType(native, mod.Types.VehicleSpawner)) {
+                return VehicleSpawner.fromNative(native as mod.VehicleSpawner);
+            }
             if (mod.IsType(native, mod.Types.Spawner)) {
                 return Spawner.fromNative(native as mod.Spawner);
             }
@@ -112,6 +538,10 @@ namespace Portal {
             }
 
             // Fallback for unknown types
+            const id = mod.GetObjId(native);
+            if (id !== -1 && GameObject.hasInstance(id)) {
+                return GameObject.getInstance(id)!;
+            }
             return new (class extends GameObject { })(native);
         }
 
@@ -123,8 +553,79 @@ namespace Portal {
             return GameObject.instanceMap.has(id);
         }
 
+        /**
+         * Evicts the wrapper registered for an id and dispatches its onDestroyed event.
+         * @param id The object id whose wrapper should be evicted.
+         */
         public static removeInstance(id: number): void {
+            const instance = GameObject.instanceMap.get(id);
             GameObject.instanceMap.delete(id);
+            instance?._release();
+        }
+
+        /**
+         * Returns the wrapper registered for an id if it is of the expected class.
+         * A wrapper of another class means the id was recycled for a new native object, so the stale wrapper is evicted.
+         * @param id The object id to look up.
+         * @param type The class the wrapper is expected to be an instance of.
+         */
+        protected static lookup<T extends GameObject>(id: number, type: Function & { prototype: T }): T | undefined {
+            const instance = GameObject.instanceMap.get(id);
+            if (!instance) {
+                return undefined;
+            }
+            if (instance instanceof type) {
+                return instance as T;
+            }
+            GameObject.removeInstance(id);
+            return undefined;
+        }
+
+        /**
+         * Evicts the wrapper registered for an id whose native object is gone, if it is of the expected class.
+         * A wrapper of another class holding the id belongs to a different, live object and is left alone.
+         * @param id The object id that no longer resolves to a native object of the class.
+         * @param type The class of the stale wrapper.
+         */
+        protected static evictStale(id: number, type: Function & { prototype: GameObject }): void {
+            if (GameObject.instanceMap.get(id) instanceof type) {
+                GameObject.removeInstance(id);
+            }
+        }
+
+        /**
+         * Marks this wrapper as no longer backed by a live native object, evicts it and dispatches onDestroyed.
+         * Does nothing if the wrapper was already released.
+         * @internal
+         */
+        public _release(): void {
+            if (this._released) {
+                return;
+            }
+            this._released = true;
+            if (GameObject.instanceMap.get(this._instanceId) === this) {
+                GameObject.instanceMap.delete(this._instanceId);
+            }
+            this.onDestroyed.dispatch();
+            this._data?.clear();
+        }
+
+        /**
+         * Gets the accessor for data attached to this object. Attached data is cleared when the object leaves or is destroyed.
+         * @param key The key identifying the data.
+         */
+        public data<T>(key: DataKey<T>): DataSlot<T> {
+            if (!this._data) {
+                this._data = new DataStore(this);
+            }
+            return new DataSlot(this._data, key);
+        }
+
+        /**
+         * Whether this wrapper still refers to a live native object.
+         */
+        public get isValid(): boolean {
+            return !this._released && mod.GetObjId(this._native) !== -1;
         }
 
         protected static createObject<T extends GameObject>(
@@ -177,7 +678,7 @@ namespace Portal {
 
         public destroy(): void {
             mod.UnspawnObject(this._native);
-            GameObject.removeInstance(this.id);
+            this._release();
         }
 
         /**
@@ -276,6 +777,9 @@ namespace Portal {
         public stopMovement(): void {
             mod.StopActiveMovementForObject(this._native);
         }
+
+        // Events
+        public onDestroyed = new Event<() => Promise<void>>();
     }
     //#endregion
 
@@ -513,6 +1017,7 @@ namespace Portal {
         protected declare _native: mod.Player;
         public readonly inputRestrictions: InputRestrictions;
         public readonly inventory: InventoryManager;
+        private _cachedHealth: number | null = null;
 
         protected constructor(native: mod.Player) {
             super(native);
@@ -522,17 +1027,26 @@ namespace Portal {
 
         public static fromNative(native: mod.Player): Player {
             const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as Player;
+            const isAI = mod.GetSoldierState(native, mod.SoldierStateBool.IsAISoldier);
+            const existing = GameObject.lookup(id, Player);
+            if (existing) {
+                if ((existing instanceof AIPlayer) === isAI) {
+                    return existing;
+                }
+                // The id now belongs to a soldier of the other kind.
+                GameObject.removeInstance(id);
             }
 
-            const isAI = mod.GetSoldierState(native, mod.SoldierStateBool.IsAISoldier);
             if (isAI) {
                 return new AIPlayer(native);
             }
             return new Player(native);
         }
 
+        public get isValid(): boolean {
+            return super.isValid && mod.IsPlayerValid(this._native);
+        }
+
         public get native(): mod.Player {
             return this._native;
         }
@@ -561,6 +1075,26 @@ namespace Portal {
             }
         }
 
+        /**
+         * Remembers the current health so the next OnPlayerDamaged can tell how much damage was dealt.
+         * @internal
+         */
+        public _refreshHealth(): void {
+            this._cachedHealth = this.currentHealth;
+        }
+
+        /**
+         * Returns the health before and after the damage being reported and caches the new value.
+         * Regeneration the wrapper did not see is ignored, so the damage is never negative but can be under-counted.
+         * @internal
+         */
+        public _takeDamageReport(): { healthBefore: number; healthAfter: number } {
+            const healthAfter = this.currentHealth;
+            const healthBefore = Math.max(this._cachedHealth ?? healthAfter, healthAfter);
+            this._cachedHealth = healthAfter;
+            return { healthBefore, healthAfter };
+        }
+
         public get maxHealth(): number {
             return mod.GetSoldierState(this._native, mod.SoldierStateNumber.MaxHealth);
         }
@@ -573,51 +1107,168 @@ namespace Portal {
             return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsAlive);
         }
 
-        public kill(): void {
-            mod.Kill(this._native);
+        public get isBeingRevived(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsBeingRevived);
         }
 
-        public spot(duration: number, spotStatus: mod.SpotStatus, spotter?: Player): void {
-            if (spotter) {
-                mod.SpotTarget(this.native, spotter.native, duration, spotStatus);
-            } else {
-                mod.SpotTarget(this.native, duration, spotStatus);
-            }
+        public get isCrouching(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsCrouching);
         }
 
-        public teleport(destination: Vector, orientation?: number): void {
-            mod.Teleport(this.native, destination.native, orientation ?? 0);
+        public get isDead(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsDead);
         }
 
-        public set skipManDown(value: boolean) {
-            mod.SkipManDown(this.native, value);
+        public get isFiring(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsFiring);
         }
 
-        public forceRevive(): void {
-            mod.ForceRevive(this.native);
+        public get isInAir(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsInAir);
         }
 
-        public forceManDown(): void {
-            mod.ForceManDown(this.native);
+        public get isInteracting(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsInteracting);
         }
 
-        public resupply(type: mod.ResupplyTypes): void {
-            mod.Resupply(this.native, type);
+        public get isInVehicle(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsInVehicle);
         }
 
-        public set movementSpeedMultiplier(value: number) {
-            mod.SetPlayerMovementSpeedMultiplier(this.native, value);
+        public get isInWater(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsInWater);
         }
 
-        public setTeam(team: Team): void {
-            mod.SetTeam(this.native, team.native);
+        public get isJumping(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsJumping);
         }
 
-        public deploy(): void {
-            mod.DeployPlayer(this.native);
+        public get isManDown(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsManDown);
         }
 
-        public undeploy(): void {
+        public get isOnGround(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsOnGround);
+        }
+
+        public get isParachuting(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsParachuting);
+        }
+
+        public get isProne(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsProne);
+        }
+
+        public get isReloading(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsReloading);
+        }
+
+        public get isReviving(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsReviving);
+        }
+
+        public get isSprinting(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsSprinting);
+        }
+
+        public get isStanding(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsStanding);
+        }
+
+        public get isVaulting(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsVaulting);
+        }
+
+        public get isZooming(): boolean {
+            return mod.GetSoldierState(this._native, mod.SoldierStateBool.IsZooming);
+        }
+
+        public get currentWeaponAmmo(): number {
+            return mod.GetSoldierState(this._native, mod.SoldierStateNumber.CurrentWeaponAmmo);
+        }
+
+        public get currentWeaponMagazineAmmo(): number {
+            return mod.GetSoldierState(this._native, mod.SoldierStateNumber.CurrentWeaponMagazineAmmo);
+        }
+
+        public get normalizedHealth(): number {
+            return mod.GetSoldierState(this._native, mod.SoldierStateNumber.NormalizedHealth);
+        }
+
+        public get speed(): number {
+            return mod.GetSoldierState(this._native, mod.SoldierStateNumber.Speed);
+        }
+
+        public get eyePosition(): Vector {
+            return Vector.fromNative(mod.GetSoldierState(this._native, mod.SoldierStateVector.EyePosition));
+        }
+
+        public get facingDirection(): Vector {
+            return Vector.fromNative(mod.GetSoldierState(this._native, mod.SoldierStateVector.GetFacingDirection));
+        }
+
+        public get linearVelocity(): Vector {
+            return Vector.fromNative(mod.GetSoldierState(this._native, mod.SoldierStateVector.GetLinearVelocity));
+        }
+
+        public get kills(): number {
+            return mod.GetPlayerKills(this._native);
+        }
+
+        public get deaths(): number {
+            return mod.GetPlayerDeaths(this._native);
+        }
+
+        public get score(): number {
+            return mod.GetGameModeScore(this._native);
+        }
+
+        public kill(): void {
+            mod.Kill(this._native);
+        }
+
+        public spot(duration: number, spotStatus: mod.SpotStatus, spotter?: Player): void {
+            if (spotter) {
+                mod.SpotTarget(this.native, spotter.native, duration, spotStatus);
+            } else {
+                mod.SpotTarget(this.native, duration, spotStatus);
+            }
+        }
+
+        public teleport(destination: Vector, orientation?: number): void {
+            mod.Teleport(this.native, destination.native, orientation ?? 0);
+        }
+
+        public set skipManDown(value: boolean) {
+            mod.SkipManDown(this.native, value);
+        }
+
+        public forceRevive(): void {
+            mod.ForceRevive(this.native);
+            this._refreshHealth();
+        }
+
+        public forceManDown(): void {
+            mod.ForceManDown(this.native);
+        }
+
+        public resupply(type: mod.ResupplyTypes): void {
+            mod.Resupply(this.native, type);
+        }
+
+        public set movementSpeedMultiplier(value: number) {
+            mod.SetPlayerMovementSpeedMultiplier(this.native, value);
+        }
+
+        public setTeam(team: Team): void {
+            mod.SetTeam(this.native, team.native);
+        }
+
+        public deploy(): void {
+            mod.DeployPlayer(this.native);
+        }
+
+        public undeploy(): void {
             mod.UndeployPlayer(this.native);
         }
 
@@ -647,12 +1298,44 @@ namespace Portal {
 
         public heal(amount: number): void {
             mod.Heal(this.native, amount);
+            this._refreshHealth();
         }
 
         public damage(amount: number): void {
+            // The resulting OnPlayerDamaged measures the damage against the health from right before it.
+            this._refreshHealth();
             mod.DealDamage(this.native, amount);
         }
 
+        /** The vehicle the player is in, or null. */
+        public get vehicle(): Vehicle | null {
+            if (!this.isInVehicle) {
+                return null;
+            }
+            return Vehicle.fromNative(mod.GetVehicleFromPlayer(this._native));
+        }
+
+        /** The player's seat index in their vehicle, or -1 when on foot. */
+        public get seat(): number {
+            return mod.GetPlayerVehicleSeat(this._native);
+        }
+
+        /**
+         * Puts the player in a vehicle seat.
+         * @param vehicle The vehicle to enter.
+         * @param seat The seat index, 0 being the driver.
+         */
+        public forceIntoSeat(vehicle: Vehicle, seat: number): void {
+            mod.ForcePlayerToSeat(this._native, vehicle.native, seat);
+        }
+
+        /**
+         * Forces the player out of their vehicle.
+         */
+        public exitVehicle(): void {
+            mod.ForcePlayerExitVehicle(this._native);
+        }
+
         public enableScreenEffect(effect: mod.ScreenEffects, enable: boolean): void {
             mod.EnableScreenEffect(this.native, effect, enable);
         }
@@ -687,7 +1370,12 @@ namespace Portal {
         // Events
         public onGoing = new Event<() => Promise<void>>();
         public onPlayerDied = new Event<(killer: Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock) => Promise<void>>();
-        public onPlayerDamaged = new Event<(damager: Player, damageType: mod.DamageType, weapon: mod.WeaponUnlock) => Promise<void>>();
+        /**
+         * The API does not report the damage dealt, so `damage` is the drop from the health the wrapper last saw, which it
+         * samples every tick and on its own heals, revives and damage. It is an approximation: health regenerated since the
+         * last sample hides that much of the hit, and a sample taken between the hit and this event reports 0.
+         */
+        public onPlayerDamaged = new Event<(damager: Player, damageType: mod.DamageType, weapon: mod.WeaponUnlock, damage: number, healthBefore: number, healthAfter: number) => Promise<void>>();
         public onPlayerEnterVehicle = new Event<(vehicle: Vehicle) => Promise<void>>();
         public onPlayerExitVehicle = new Event<(vehicle: Vehicle) => Promise<void>>();
         public onEnterCapturePoint = new Event<(capturePoint: CapturePoint) => Promise<void>>();
@@ -701,11 +1389,35 @@ namespace Portal {
         public onEarnedKillAssist = new Event<(victim: Player) => Promise<void>>();
         public onEnterVehicleSeat = new Event<(vehicle: Vehicle, seat: number) => Promise<void>>();
         public onExitVehicleSeat = new Event<(vehicle: Vehicle, seat: number) => Promise<void>>();
+        /** Never dispatched: the API cannot tell a rejoining player from a new player given a recycled id. See Known Limitations in the README. */
         public onPlayerRejoinGame = new Event<() => Promise<void>>();
         public onSwitchTeam = new Event<(newTeam: Team) => Promise<void>>();
         public onUndeploy = new Event<() => Promise<void>>();
         public onRevived = new Event<(reviver: Player) => Promise<void>>();
 
+        // Derived events, computed on the OngoingPlayer tick while they have subscribers
+        public onStartedSprinting = this.soldierStateEvent(mod.SoldierStateBool.IsSprinting, true);
+        public onStoppedSprinting = this.soldierStateEvent(mod.SoldierStateBool.IsSprinting, false);
+        public onEnteredWater = this.soldierStateEvent(mod.SoldierStateBool.IsInWater, true);
+        public onLeftWater = this.soldierStateEvent(mod.SoldierStateBool.IsInWater, false);
+        public onLanded = this.soldierStateEvent(mod.SoldierStateBool.IsInAir, false);
+        public onStartedReloading = this.soldierStateEvent(mod.SoldierStateBool.IsReloading, true);
+
+        /**
+         * Creates an event dispatched on the tick where a soldier state changes to `value`.
+         * The state is only polled while the event has subscribers.
+         */
+        private soldierStateEvent(state: mod.SoldierStateBool, value: boolean): Event<() => Promise<void>> {
+            let previous: boolean | null = null;
+            return new DerivedEvent<() => Promise<void>, () => Promise<void>>(this.onGoing, target => {
+                const current = mod.GetSoldierState(this._native, state);
+                if (previous !== null && current !== previous && current === value) {
+                    target.dispatch();
+                }
+                previous = current;
+            }, () => { previous = null; });
+        }
+
         public get team(): Team {
             return Team.fromNative(mod.GetTeam(this.native));
         }
@@ -745,6 +1457,8 @@ namespace Portal {
         public onAIWaypointIdleSucceeded = new Event<() => Promise<void>>();
 
         public personality: AIPersonality | null = null;
+        /** The spawner this AI came from, if it was spawned through one. */
+        public spawner: Spawner | null = null;
 
         private _currentPath: Vector[] | null = null;
         private _currentWaypointIndex: number = 0;
@@ -856,17 +1570,25 @@ namespace Portal {
     //#endregion
 
     //#region Vehicle
+    export interface VehicleSeat {
+        /** The seat index, 0 being the driver. */
+        index: number;
+        occupant: Player | null;
+    }
+
     export class Vehicle extends GameObject {
         protected declare _native: mod.Vehicle;
+        /** The spawner this vehicle came from, if the wrapper could tell. */
+        public spawner: VehicleSpawner | null = null;
 
         protected constructor(native: mod.Vehicle) {
             super(native);
         }
 
         public static fromNative(native: mod.Vehicle): Vehicle {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as Vehicle;
+            const existing = GameObject.lookup(mod.GetObjId(native), Vehicle);
+            if (existing) {
+                return existing;
             }
             return new Vehicle(native);
         }
@@ -875,6 +1597,132 @@ namespace Portal {
             return this._native;
         }
 
+        public static getAll(): Vehicle[] {
+            const allVehiclesNative = mod.AllVehicles();
+            const count = mod.CountOf(allVehiclesNative);
+            const vehicles: Vehicle[] = [];
+            for (let i = 0; i < count; i++) {
+                const vehicleNative = mod.ValueInArray(allVehiclesNative, i) as mod.Vehicle;
+                vehicles.push(Vehicle.fromNative(vehicleNative));
+            }
+            return vehicles;
+        }
+
+        /**
+         * Whether this vehicle is of the given type.
+         */
+        public is(type: mod.VehicleList): boolean {
+            return mod.CompareVehicleName(this._native, type);
+        }
+
+        /** The team of the occupants. Unoccupied vehicles belong to the neutral team. */
+        public get team(): Team {
+            return Team.fromNative(mod.GetVehicleTeam(this._native));
+        }
+
+        public get seatCount(): number {
+            return mod.GetVehicleSeatCount(this._native);
+        }
+
+        /** Every seat with its occupant, the driver's seat first. */
+        public get seats(): VehicleSeat[] {
+            const seats: VehicleSeat[] = [];
+            for (let index = 0; index < this.seatCount; index++) {
+                seats.push({ index, occupant: this.getOccupant(index) });
+            }
+            return seats;
+        }
+
+        /** The player in seat 0, or null. */
+        public get driver(): Player | null {
+            return this.getOccupant(0);
+        }
+
+        public get occupants(): Player[] {
+            const occupantsNative = mod.GetAllPlayersInVehicle(this._native);
+            const count = mod.CountOf(occupantsNative);
+            const occupants: Player[] = [];
+            for (let i = 0; i < count; i++) {
+                occupants.push(Player.fromNative(mod.ValueInArray(occupantsNative, i) as mod.Player));
+            }
+            return occupants;
+        }
+
+        public get isOccupied(): boolean {
+            return mod.IsVehicleOccupied(this._native);
+        }
+
+        public isSeatOccupied(seat: number): boolean {
+            return mod.IsVehicleSeatOccupied(this._native, seat);
+        }
+
+        /**
+         * Gets the player in a seat.
+         * @param seat The seat index, 0 being the driver.
+         * @returns The player, or null if the seat is empty.
+         */
+        public getOccupant(seat: number): Player | null {
+            if (!this.isSeatOccupied(seat)) {
+                return null;
+            }
+            return Player.fromNative(mod.GetPlayerFromVehicleSeat(this._native, seat));
+        }
+
+        public get velocity(): Vector {
+            return Vector.fromNative(mod.GetVehicleState(this._native, mod.VehicleStateVector.LinearVelocity));
+        }
+
+        public get facingDirection(): Vector {
+            return Vector.fromNative(mod.GetVehicleState(this._native, mod.VehicleStateVector.FacingDirection));
+        }
+
+        public set maxHealthMultiplier(value: number) {
+            mod.SetVehicleMaxHealthMultiplier(this._native, value);
+        }
+
+        /**
+         * Forces every occupant out of the vehicle.
+         */
+        public ejectAll(): void {
+            mod.ForcePlayerExitVehicle(this._native);
+        }
+
+        private _locks: VehicleLock[] = [];
+
+        /** The active seat locks on this vehicle. */
+        public get locks(): VehicleLock[] {
+            return [...this._locks];
+        }
+
+        /**
+         * Reserves seats for a player, squad or team. Anyone else who takes a locked seat is ejected,
+         * including current occupants. A lock held by a player is released when they die or leave.
+         * @param holder Who may use the locked seats.
+         * @param options The seats, notification and release settings.
+         */
+        public lockTo(holder: VehicleLockHolder, options: VehicleLockOptions = {}): VehicleLock {
+            const lock = new VehicleLock(this, holder, options);
+            if (!lock.isReleased) {
+                this._locks.push(lock);
+            }
+            return lock;
+        }
+
+        /**
+         * Releases every lock on this vehicle.
+         */
+        public unlock(): void {
+            this.locks.forEach(lock => lock.release());
+        }
+
+        /** @internal */
+        public _removeLock(lock: VehicleLock): void {
+            const index = this._locks.indexOf(lock);
+            if (index > -1) {
+                this._locks.splice(index, 1);
+            }
+        }
+
         // Events
         public onGoing = new Event<() => Promise<void>>();
         public onPlayerEnterVehicle = new Event<(player: Player) => Promise<void>>();
@@ -883,6 +1731,91 @@ namespace Portal {
         public onEnterVehicleSeat = new Event<(player: Player, seat: number) => Promise<void>>();
         public onExitVehicleSeat = new Event<(player: Player, seat: number) => Promise<void>>();
     }
+
+    export type VehicleLockHolder = Player | Squad | Team;
+
+    export interface VehicleLockOptions {
+        /** The seats the lock applies to. Defaults to every seat. */
+        seats?: number[];
+        /** A notification shown to players who are ejected. */
+        message?: mod.Message;
+        /** When the holder is a player, also release the lock when they die instead of only when they leave. Defaults to true. */
+        releaseOnDeath?: boolean;
+    }
+
+    /**
+     * Reserves vehicle seats for a player, squad or team. Created with {@link Vehicle.lockTo}.
+     */
+    export class VehicleLock implements Disposable {
+        private scope = new SubscriptionScope();
+        private _isReleased = false;
+
+        /** Dispatched after a player was ejected from a locked seat. */
+        public onDenied = new Event<(player: Player, seat: number) => Promise<void>>();
+        public onReleased = new Event<() => Promise<void>>();
+
+        /** @internal */
+        constructor(public readonly vehicle: Vehicle, public readonly holder: VehicleLockHolder, private options: VehicleLockOptions) {
+            // Checked before other handlers, so they can skip players that are being ejected.
+            this.scope.subscribe(vehicle.onEnterVehicleSeat, async (player, seat) => this.enforce(player, seat), 100);
+            this.scope.add(SubscriptionScope.forObject(vehicle)).add(this);
+            if (holder instanceof Player) {
+                const holderScope = options.releaseOnDeath === false ? SubscriptionScope.forSession(holder) : SubscriptionScope.forLife(holder);
+                this.scope.add(holderScope).add(this);
+            }
+            vehicle.seats.forEach(seat => {
+                if (seat.occupant) {
+                    this.enforce(seat.occupant, seat.index);
+                }
+            });
+        }
+
+        public get isReleased(): boolean {
+            return this._isReleased;
+        }
+
+        public appliesTo(seat: number): boolean {
+            return !this.options.seats || this.options.seats.includes(seat);
+        }
+
+        /**
+         * Whether a player may sit in the locked seats.
+         */
+        public allows(player: Player): boolean {
+            if (this.holder instanceof Player) {
+                return this.holder === player;
+            }
+            if (this.holder instanceof Team) {
+                return mod.GetTeam(player.native) === this.holder.native;
+            }
+            return mod.GetSquad(player.native) === this.holder.native;
+        }
+
+        public release(): void {
+            if (this._isReleased) {
+                return;
+            }
+            this._isReleased = true;
+            this.scope.dispose();
+            this.vehicle._removeLock(this);
+            this.onReleased.dispatch();
+        }
+
+        public dispose(): void {
+            this.release();
+        }
+
+        private enforce(player: Player, seat: number): void {
+            if (this._isReleased || !this.appliesTo(seat) || this.allows(player)) {
+                return;
+            }
+            mod.ForcePlayerExitVehicle(player.native, this.vehicle.native);
+            if (this.options.message) {
+                mod.DisplayNotificationMessage(this.options.message, player.native);
+            }
+            this.onDenied.dispatch(player, seat);
+        }
+    }
     //#endregion
 
     //#region Objectives
@@ -908,9 +1841,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.CapturePoint): CapturePoint {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as CapturePoint;
+            const existing = GameObject.lookup(mod.GetObjId(native), CapturePoint);
+            if (existing) {
+                return existing;
             }
             return new CapturePoint(native);
         }
@@ -952,9 +1885,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.MCOM): MCOM {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as MCOM;
+            const existing = GameObject.lookup(mod.GetObjId(native), MCOM);
+            if (existing) {
+                return existing;
             }
             return new MCOM(native);
         }
@@ -971,7 +1904,8 @@ namespace Portal {
         public onGoing = new Event<() => Promise<void>>();
         public onArmed = new Event<() => Promise<void>>();
         public onDefused = new Event<() => Promise<void>>();
-        public onDestroyed = new Event<() => Promise<void>>();
+        // onDestroyed is inherited from GameObject and is also dispatched when the MCOM is blown up.
+        // The wrapper stays valid afterwards, but scopes bound to the MCOM with SubscriptionScope.forObject end.
     }
 
     export class HQ extends Objective {
@@ -986,9 +1920,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.HQ): HQ {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as HQ;
+            const existing = GameObject.lookup(mod.GetObjId(native), HQ);
+            if (existing) {
+                return existing;
             }
             return new HQ(native);
         }
@@ -1017,9 +1951,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.Sector): Sector {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as Sector;
+            const existing = GameObject.lookup(mod.GetObjId(native), Sector);
+            if (existing) {
+                return existing;
             }
             return new Sector(native);
         }
@@ -1034,6 +1968,16 @@ namespace Portal {
     //#endregion
 
     //#region Game
+    /**
+     * The result of a raycast that hit something.
+     */
+    export interface RaycastHit {
+        position: Vector;
+        normal: Vector;
+        hitPlayer: Player | null;
+        hitVehicle: Vehicle | null;
+    }
+
     export abstract class Game {
         // Static Global Events
         public static onGoing = new Event<() => Promise<void>>();
@@ -1044,6 +1988,35 @@ namespace Portal {
         public static onPlayerJoined = new Event<(player: Player) => Promise<void>>();
         public static onPlayerLeft = new Event<(playerId: number) => Promise<void>>();
 
+        // Aggregate Events, dispatched for every object after its own event
+        public static onAnyPlayerDied = new Event<(victim: Player, killer: Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock) => Promise<void>>();
+        public static onAnyPlayerDamaged = new Event<(victim: Player, damager: Player, damageType: mod.DamageType, weapon: mod.WeaponUnlock, damage: number, healthBefore: number, healthAfter: number) => Promise<void>>();
+        public static onAnyPlayerManDown = new Event<(victim: Player, killer: Player | null) => Promise<void>>();
+        public static onAnyPlayerRevived = new Event<(player: Player, reviver: Player) => Promise<void>>();
+        public static onAnyPlayerEarnedKill = new Event<(player: Player, victim: Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock) => Promise<void>>();
+        public static onAnyPlayerEarnedKillAssist = new Event<(player: Player, victim: Player) => Promise<void>>();
+        public static onAnyPlayerDeployed = new Event<(player: Player) => Promise<void>>();
+        public static onAnyPlayerUndeploy = new Event<(player: Player) => Promise<void>>();
+        public static onAnyPlayerSwitchTeam = new Event<(player: Player, newTeam: Team) => Promise<void>>();
+        public static onAnyPlayerEnterVehicle = new Event<(player: Player, vehicle: Vehicle) => Promise<void>>();
+        public static onAnyPlayerExitVehicle = new Event<(player: Player, vehicle: Vehicle) => Promise<void>>();
+        public static onAnyPlayerEnterVehicleSeat = new Event<(player: Player, vehicle: Vehicle, seat: number) => Promise<void>>();
+        public static onAnyPlayerExitVehicleSeat = new Event<(player: Player, vehicle: Vehicle, seat: number) => Promise<void>>();
+        public static onAnyPlayerEnterCapturePoint = new Event<(player: Player, capturePoint: CapturePoint) => Promise<void>>();
+        public static onAnyPlayerExitCapturePoint = new Event<(player: Player, capturePoint: CapturePoint) => Promise<void>>();
+        public static onAnyPlayerEnterAreaTrigger = new Event<(player: Player, areaTrigger: AreaTrigger) => Promise<void>>();
+        public static onAnyPlayerExitAreaTrigger = new Event<(player: Player, areaTrigger: AreaTrigger) => Promise<void>>();
+        public static onAnyPlayerInteract = new Event<(player: Player, interactPoint: InteractPoint) => Promise<void>>();
+        public static onAnyCapturePointCaptured = new Event<(capturePoint: CapturePoint) => Promise<void>>();
+        public static onAnyCapturePointCapturing = new Event<(capturePoint: CapturePoint) => Promise<void>>();
+        public static onAnyCapturePointLost = new Event<(capturePoint: CapturePoint) => Promise<void>>();
+        public static onAnyMCOMArmed = new Event<(mcom: MCOM) => Promise<void>>();
+        public static onAnyMCOMDefused = new Event<(mcom: MCOM) => Promise<void>>();
+        public static onAnyMCOMDestroyed = new Event<(mcom: MCOM) => Promise<void>>();
+        public static onAnyVehicleDestroyed = new Event<(vehicle: Vehicle) => Promise<void>>();
+        public static onAnyAISpawned = new Event<(player: AIPlayer, spawner: Spawner) => Promise<void>>();
+        public static onAnyRingOfFireZoneSizeChanged = new Event<(ringOfFire: RingOfFire, eventNumber: number) => Promise<void>>();
+
         // Static Global Functions
         public static end(winner?: Player | mod.Team): void {
             if (winner) {
@@ -1062,8 +2035,18 @@ namespace Portal {
             mod.DisablePlayerJoin();
         }
 
+        private static _isTimerPaused = false;
+
         public static pauseTimer(shouldPause: boolean): void {
             mod.PauseGameModeTime(shouldPause);
+            this._isTimerPaused = shouldPause;
+        }
+
+        /**
+         * Whether the game mode timer was paused through {@link Game.pauseTimer}.
+         */
+        public static get isTimerPaused(): boolean {
+            return this._isTimerPaused;
         }
 
         public static setFriendlyFire(enabled: boolean): void {
@@ -1106,58 +2089,890 @@ namespace Portal {
             mod.SetAIToHumanDamageModifier(multiplier);
         }
 
-        public static setCameraTypeForAll(cameraType: mod.Cameras, cameraIndex?: number): void {
-            if (cameraIndex !== undefined) {
-                mod.SetCameraTypeForAll(cameraType, cameraIndex);
-            } else {
-                mod.SetCameraTypeForAll(cameraType);
-            }
+        public static setCameraTypeForAll(cameraType: mod.Cameras, cameraIndex?: number): void {
+            if (cameraIndex !== undefined) {
+                mod.SetCameraTypeForAll(cameraType, cameraIndex);
+            } else {
+                mod.SetCameraTypeForAll(cameraType);
+            }
+        }
+
+        private static raycastCallbacks = new Map<number, {
+            onHit: (position: Vector, normal: Vector, hitPlayer: Player | null, hitVehicle: Vehicle | null) => void;
+            onMiss: () => void;
+        }>();
+
+        /**
+         * Performs a raycast and executes a callback on hit or miss.
+         * @param player The player initiating the raycast. Used to identify the callback.
+         * @param start The starting position of the raycast.
+         * @param stop The ending position of the raycast.
+         * @param onHit The function to call if the raycast hits something.
+         * @param onMiss The function to call if the raycast misses.
+         */
+        public static raycast(
+            player: Player,
+            start: Vector,
+            stop: Vector,
+            onHit: (position: Vector, normal: Vector, hitPlayer: Player | null, hitVehicle: Vehicle | null) => void,
+            onMiss: () => void
+        ): void {
+            this.raycastCallbacks.set(player.id, { onHit, onMiss });
+            mod.RayCast(player.native, start.native, stop.native);
+        }
+
+        /**
+         * Performs a raycast and resolves with the hit, or null on a miss.
+         * @param player The player initiating the raycast. Used to identify the callback.
+         * @param start The starting position of the raycast.
+         * @param stop The ending position of the raycast.
+         * @param token Optional token; the promise rejects with a {@link CancelledError} when it is cancelled.
+         */
+        public static raycastAsync(player: Player, start: Vector, stop: Vector, token?: CancellationToken): Promise<RaycastHit | null> {
+            return new Promise((resolve, reject) => {
+                if (token?.isCancelled) {
+                    reject(new CancelledError());
+                    return;
+                }
+
+                const playerId = player.id;
+                const cancelSubscription = token?.onCancelled.subscribe(async () => {
+                    this.raycastCallbacks.delete(playerId);
+                    reject(new CancelledError());
+                });
+
+                this.raycast(
+                    player,
+                    start,
+                    stop,
+                    (position, normal, hitPlayer, hitVehicle) => {
+                        cancelSubscription?.unsubscribe();
+                        resolve({ position, normal, hitPlayer, hitVehicle });
+                    },
+                    () => {
+                        cancelSubscription?.unsubscribe();
+                        resolve(null);
+                    }
+                );
+            });
+        }
+
+        /** @internal */
+        public static _handleRaycastHit(eventPlayer: mod.Player, eventPosition: mod.Vector, eventNormal: mod.Vector, eventHitPlayer: mod.Player, eventHitVehicle: mod.Vehicle): void {
+            const playerId = mod.GetObjId(eventPlayer);
+            const callbacks = this.raycastCallbacks.get(playerId);
+            if (callbacks) {
+                const hitPlayer = eventHitPlayer ? Player.fromNative(eventHitPlayer) : null;
+                const hitVehicle = eventHitVehicle ? Vehicle.fromNative(eventHitVehicle) : null;
+                callbacks.onHit(Vector.fromNative(eventPosition), Vector.fromNative(eventNormal), hitPlayer, hitVehicle);
+                this.raycastCallbacks.delete(playerId);
+            }
+        }
+
+        /** @internal */
+        public static _handleRaycastMiss(eventPlayer: mod.Player): void {
+            const playerId = mod.GetObjId(eventPlayer);
+            const callbacks = this.raycastCallbacks.get(playerId);
+            if (callbacks) {
+                callbacks.onMiss();
+                this.raycastCallbacks.delete(playerId);
+            }
+        }
+    }
+    //#endregion
+
+    //#region Timers
+    /**
+     * Defines optional settings for a timer.
+     */
+    export interface TimerOptions {
+        /** Stop counting down while the game mode timer is paused with {@link Game.pauseTimer}. */
+        pauseWithGame?: boolean;
+        /** Cancel the timer when this object goes away: a player dies or leaves, any other object is destroyed. */
+        owner?: GameObject;
+        /** Cancel the timer when this scope is disposed. */
+        scope?: SubscriptionScope;
+    }
+
+    /**
+     * A cancellable countdown created by {@link Timers.after} or {@link Timers.every}.
+     */
+    export class Timer implements Disposable {
+        private _remaining: number;
+        private _isCancelled = false;
+        private _isFinished = false;
+        private _isPaused = false;
+        private ownerScope: SubscriptionScope | null = null;
+
+        /** @internal */
+        constructor(
+            public readonly interval: number,
+            public readonly repeat: boolean,
+            private callback: () => void | Promise<void>,
+            private options: TimerOptions
+        ) {
+            this._remaining = interval;
+            if (options.owner) {
+                this.ownerScope = SubscriptionScope.forOwner(options.owner);
+                this.ownerScope.add(this);
+            }
+            options.scope?.add(this);
+        }
+
+        /** Whether the timer is still counting down or running its callback. */
+        public get isActive(): boolean {
+            return !this._isCancelled && !this._isFinished;
+        }
+
+        /** Whether the timer is currently not counting down, either manually or because the game timer is paused. */
+        public get isPaused(): boolean {
+            return this._isPaused || (!!this.options.pauseWithGame && Game.isTimerPaused);
+        }
+
+        /** Seconds left until the next call of the callback. */
+        public get remaining(): number {
+            return this._remaining;
+        }
+
+        public pause(): void {
+            this._isPaused = true;
+        }
+
+        public resume(): void {
+            this._isPaused = false;
+        }
+
+        public cancel(): void {
+            if (!this.isActive) {
+                return;
+            }
+            this._isCancelled = true;
+            this.finish();
+        }
+
+        public dispose(): void {
+            this.cancel();
+        }
+
+        /** @internal */
+        public async _run(): Promise<void> {
+            do {
+                this._remaining = this.interval;
+                while (this._remaining > 0) {
+                    const step = Math.min(this._remaining, Timers.resolution);
+                    await mod.Wait(step);
+                    if (this._isCancelled) {
+                        return;
+                    }
+                    if (!this.isPaused) {
+                        this._remaining -= step;
+                    }
+                }
+
+                try {
+                    await this.callback();
+                } catch (e) {
+                    mod.SendErrorReport(mod.Message(`Error in timer callback: ${e}`));
+                }
+            } while (this.repeat && !this._isCancelled);
+
+            if (!this._isCancelled) {
+                this._isFinished = true;
+                this.finish();
+            }
+        }
+
+        private finish(): void {
+            Timers._remove(this);
+            if (this.ownerScope) {
+                const scope = this.ownerScope;
+                this.ownerScope = null;
+                scope.dispose();
+            }
+        }
+    }
+
+    /**
+     * Schedules callbacks after a delay or at a fixed interval, built on mod.Wait.
+     */
+    export abstract class Timers {
+        private static activeTimers = new Set<Timer>();
+
+        /** The longest single wait in seconds; pausing and cancelling take effect within this time. */
+        public static resolution = 0.1;
+
+        /**
+         * Calls a function once after a delay.
+         * @param seconds The delay in seconds.
+         * @param callback The function to call.
+         * @param options Pause and ownership settings.
+         */
+        public static after(seconds: number, callback: () => void | Promise<void>, options: TimerOptions = {}): Timer {
+            return this.start(new Timer(seconds, false, callback, options));
+        }
+
+        /**
+         * Calls a function repeatedly. The next interval starts once the previous call has finished.
+         * @param seconds The interval in seconds, at least {@link resolution}; shorter intervals are raised to it.
+         * @param callback The function to call.
+         * @param options Pause and ownership settings.
+         */
+        public static every(seconds: number, callback: () => void | Promise<void>, options: TimerOptions = {}): Timer {
+            // A zero interval would never reach mod.Wait and freeze the script.
+            return this.start(new Timer(Math.max(seconds, this.resolution), true, callback, options));
+        }
+
+        /** The timers that have not finished or been cancelled yet. */
+        public static get active(): Timer[] {
+            return [...this.activeTimers];
+        }
+
+        public static cancelAll(): void {
+            this.activeTimers.forEach(timer => timer.cancel());
+        }
+
+        private static start(timer: Timer): Timer {
+            if (timer.isActive) {
+                this.activeTimers.add(timer);
+                timer._run();
+            }
+            return timer;
+        }
+
+        /** @internal */
+        public static _remove(timer: Timer): void {
+            this.activeTimers.delete(timer);
+        }
+    }
+    //#endregion
+
+    //#region Tasks
+    export type TaskStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+    /**
+     * Defines optional settings for a task.
+     */
+    export interface TaskOptions {
+        /** A name shown when listing running tasks. */
+        name?: string;
+        /** Cancel the task when this object goes away: a player dies or leaves, any other object is destroyed. */
+        owner?: GameObject;
+        /** Cancel the task when this scope is disposed. */
+        scope?: SubscriptionScope;
+    }
+
+    /**
+     * A long-running async flow started by {@link Tasks.start}.
+     */
+    export class Task implements Disposable {
+        public readonly token = new CancellationToken();
+        public readonly startedAt: number;
+        private _status: TaskStatus = 'running';
+        private ownerScope: SubscriptionScope | null = null;
+
+        /** Resolves with the final status once the task has stopped. Never rejects. */
+        public readonly done: Promise<TaskStatus>;
+
+        /** @internal */
+        constructor(public readonly name: string, body: (token: CancellationToken) => Promise<void>, options: TaskOptions) {
+            this.startedAt = Game.matchTimeElapsed;
+            if (options.owner) {
+                this.ownerScope = SubscriptionScope.forOwner(options.owner);
+                this.ownerScope.add(this);
+            }
+            options.scope?.add(this);
+            this.done = this.run(body);
+        }
+
+        public get status(): TaskStatus {
+            return this._status;
+        }
+
+        public get isRunning(): boolean {
+            return this._status === 'running';
+        }
+
+        /**
+         * Requests cancellation. Waits on the task's token reject with a {@link CancelledError}, which ends the task.
+         */
+        public cancel(): void {
+            if (this.isRunning) {
+                this.token.cancel();
+            }
+        }
+
+        public dispose(): void {
+            this.cancel();
+        }
+
+        private async run(body: (token: CancellationToken) => Promise<void>): Promise<TaskStatus> {
+            // Let the constructor finish before the body runs, so a cancelled owner scope is seen first.
+            await Promise.resolve();
+            try {
+                this.token.throwIfCancelled();
+                await body(this.token);
+                this._status = this.token.isCancelled ? 'cancelled' : 'completed';
+            } catch (e) {
+                if (e instanceof CancelledError || this.token.isCancelled) {
+                    this._status = 'cancelled';
+                } else {
+                    this._status = 'failed';
+                    mod.SendErrorReport(mod.Message(`Error in task "${this.name}": ${e}`));
+                }
+            }
+
+            Tasks._remove(this);
+            if (this.ownerScope) {
+                const scope = this.ownerScope;
+                this.ownerScope = null;
+                scope.dispose();
+            }
+            return this._status;
+        }
+    }
+
+    /**
+     * Runs cancellable async game flows. Every running task is cancelled when the game mode ends.
+     */
+    export abstract class Tasks {
+        private static runningTasks = new Set<Task>();
+        private static nextId = 1;
+        private static endingSubscription: { unsubscribe: () => void } | null = null;
+
+        /**
+         * Starts an async function with a cancellation token.
+         * Use `token.wait`, `event.next(timeout, token)` and `Game.raycastAsync(..., token)` inside it so it can be stopped midway.
+         * @param body The async function to run.
+         * @param options Name and ownership settings.
+         */
+        public static start(body: (token: CancellationToken) => Promise<void>, options: TaskOptions = {}): Task {
+            if (!this.endingSubscription) {
+                this.endingSubscription = Game.onGameModeEnding.subscribe(async () => this.cancelAll());
+            }
+
+            const task = new Task(options.name ?? `task-${this.nextId++}`, body, options);
+            if (task.isRunning) {
+                this.runningTasks.add(task);
+            }
+            return task;
+        }
+
+        /** The tasks that have not stopped yet, for debugging. */
+        public static get running(): Task[] {
+            return [...this.runningTasks];
+        }
+
+        public static cancelAll(): void {
+            this.runningTasks.forEach(task => task.cancel());
+        }
+
+        /** @internal */
+        public static _remove(task: Task): void {
+            this.runningTasks.delete(task);
+        }
+    }
+    //#endregion
+
+    //#region Match
+    /**
+     * The phases most custom modes go through. Any string union can be used with {@link MatchStateMachine} instead.
+     */
+    export type MatchPhase = 'lobby' | 'warmup' | 'live' | 'overtime' | 'postRound';
+
+    /**
+     * Declares the hooks and transitions of a single state.
+     */
+    export interface MatchStateDefinition<S extends string> {
+        /** Called when the state becomes active. */
+        onEnter?(previous: S | null): void | Promise<void>;
+        /** Called when the state is left. */
+        onExit?(next: S): void | Promise<void>;
+        /** Called on every game tick while the state is active. */
+        onTick?(): void;
+        /** A time limit in seconds, applied with Game.setTimeLimit and Game.resetTimer when the state is entered. */
+        duration?: number;
+        /** The state to move to when the time limit is reached. */
+        next?: S;
+        /** The states this one may move to. Any state is allowed if omitted. */
+        transitions?: S[];
+        /** A guard that must return true to leave this state for the given one. */
+        canExit?(to: S): boolean;
+    }
+
+    export interface MatchStateMachineConfig<S extends string> {
+        initial: S;
+        states: { [K in S]: MatchStateDefinition<S> };
+    }
+
+    /**
+     * Drives the phases of a match. Ticks on Game.onGoing and follows timed transitions on Game.onTimeLimitReached.
+     */
+    export class MatchStateMachine<S extends string = MatchPhase> implements Disposable {
+        private config: MatchStateMachineConfig<S>;
+        private scope: SubscriptionScope | null = null;
+        private _phase: S | null = null;
+        private transitioning = false;
+        private queued: S | null = null;
+
+        public onPhaseChanged = new Event<(phase: S, previous: S | null) => Promise<void>>();
+
+        constructor(config: MatchStateMachineConfig<S>) {
+            this.config = config;
+        }
+
+        /** The active state, or null before {@link start} is called. */
+        public get phase(): S | null {
+            return this._phase;
+        }
+
+        /** Seconds left in a timed state. */
+        public get timeRemaining(): number {
+            return Game.matchTimeRemaining;
+        }
+
+        /**
+         * Subscribes to the game events and enters the initial state.
+         */
+        public start(): void {
+            if (this.scope) {
+                return;
+            }
+            this.scope = new SubscriptionScope();
+            this.scope.subscribe(Game.onGoing, async () => this.tick());
+            this.scope.subscribe(Game.onTimeLimitReached, async () => this.handleTimeLimit());
+            this.enter(this.config.initial, null);
+        }
+
+        /**
+         * Whether the machine may move from the active state to the given one.
+         * @param to The state to move to.
+         */
+        public canTransition(to: S): boolean {
+            if (this._phase === null) {
+                return false;
+            }
+            const current = this.config.states[this._phase];
+            if (current.transitions && !current.transitions.includes(to)) {
+                return false;
+            }
+            return current.canExit ? current.canExit(to) : true;
+        }
+
+        /**
+         * Moves to another state if the transition is allowed. Calls made from a hook are queued and checked once the
+         * current transition has finished; a queued transition that is not allowed then is reported as an error.
+         * @param to The state to move to.
+         * @returns Whether the transition happened. Always false for a queued transition.
+         */
+        public transition(to: S): boolean {
+            if (this.transitioning) {
+                this.queued = to;
+                return false;
+            }
+            if (!this.canTransition(to)) {
+                return false;
+            }
+
+            const previous = this._phase!;
+            this.transitioning = true;
+            MatchStateMachine.runHook(() => this.config.states[previous].onExit?.(to));
+            this.enter(to, previous);
+            return true;
+        }
+
+        public dispose(): void {
+            this.scope?.dispose();
+            this.scope = null;
+        }
+
+        private enter(phase: S, previous: S | null): void {
+            this.transitioning = true;
+            this._phase = phase;
+
+            const state = this.config.states[phase];
+            if (state.duration !== undefined) {
+                Game.setTimeLimit(state.duration);
+                Game.resetTimer();
+            }
+            MatchStateMachine.runHook(() => state.onEnter?.(previous));
+            this.onPhaseChanged.dispatch(phase, previous);
+            this.transitioning = false;
+
+            if (this.queued !== null) {
+                const queued = this.queued;
+                this.queued = null;
+                if (!this.transition(queued)) {
+                    mod.SendErrorReport(mod.Message(`Queued match transition from ${phase} to ${queued} is not allowed.`));
+                }
+            }
+        }
+
+        private tick(): void {
+            if (this._phase !== null) {
+                this.config.states[this._phase].onTick?.();
+            }
+        }
+
+        private handleTimeLimit(): void {
+            if (this._phase === null) {
+                return;
+            }
+            const next = this.config.states[this._phase].next;
+            if (next !== undefined) {
+                this.transition(next);
+            }
+        }
+
+        private static runHook(hook: () => void | Promise<void>): void {
+            try {
+                const result = hook();
+                if (result instanceof Promise) {
+                    result.catch(e => mod.SendErrorReport(mod.Message(`Error in match state hook: ${e}`)));
+                }
+            } catch (e) {
+                mod.SendErrorReport(mod.Message(`Error in match state hook: ${e}`));
+            }
+        }
+    }
+    //#endregion
+
+    //#region Rounds
+    /**
+     * Defines how a multi-round match is played.
+     */
+    export interface RoundManagerConfig {
+        /** The two competing teams. */
+        teams: [Team, Team];
+        /** The number of rounds in a best-of-N match. */
+        rounds: number;
+        /** Round wins needed to take the match. Defaults to a majority of `rounds`. */
+        winsRequired?: number;
+        /** The time limit of each round in seconds, applied with Game.setTimeLimit and Game.resetTimer. */
+        roundTimeLimit?: number;
+        /** Decides the winner when the round time limit is reached. A draw if omitted or null is returned. */
+        timeLimitWinner?: () => Team | null;
+        /** Seconds between the end of a round and the start of the next. Defaults to 5. */
+        intermission?: number;
+        /** When players swap teams: never, after every round, or once at half of `rounds`. Defaults to 'never'. */
+        swapSides?: 'never' | 'everyRound' | 'halftime';
+        /** Called for every player between rounds, after they have been undeployed. */
+        resetPlayer?: (player: Player) => void;
+    }
+
+    /**
+     * Runs a best-of-N match on top of Portal's single match: rounds, side swaps, round wins and the final Game.end.
+     */
+    export class RoundManager implements Disposable {
+        private config: RoundManagerConfig;
+        private wins = new Map<Team, number>();
+        private scope: SubscriptionScope | null = null;
+        private intermissionTimer: Timer | null = null;
+        private _round = 0;
+        private _isRoundLive = false;
+        private _isFinished = false;
+
+        public onRoundStarted = new Event<(round: number) => Promise<void>>();
+        public onRoundEnded = new Event<(round: number, winner: Team | null) => Promise<void>>();
+        public onSidesSwapped = new Event<() => Promise<void>>();
+        public onMatchEnded = new Event<(winner: Team | null) => Promise<void>>();
+
+        constructor(config: RoundManagerConfig) {
+            this.config = config;
+            config.teams.forEach(team => this.wins.set(team, 0));
+        }
+
+        /** The current round number, starting at 1. */
+        public get round(): number {
+            return this._round;
+        }
+
+        public get isRoundLive(): boolean {
+            return this._isRoundLive;
+        }
+
+        public get isFinished(): boolean {
+            return this._isFinished;
+        }
+
+        public get winsRequired(): number {
+            return this.config.winsRequired ?? Math.floor(this.config.rounds / 2) + 1;
+        }
+
+        public getWins(team: Team): number {
+            return this.wins.get(team) ?? 0;
+        }
+
+        /**
+         * Starts the first round.
+         */
+        public start(): void {
+            if (this.scope) {
+                return;
+            }
+            this.scope = new SubscriptionScope();
+            if (this.config.roundTimeLimit !== undefined) {
+                this.scope.subscribe(Game.onTimeLimitReached, async () => {
+                    if (this._isRoundLive) {
+                        this.endRound(this.config.timeLimitWinner?.() ?? null);
+                    }
+                });
+            }
+            this.startRound();
+        }
+
+        /**
+         * Ends the live round, records the win and either ends the match or starts the intermission.
+         * @param winner The team that won the round, or null for a draw.
+         */
+        public endRound(winner: Team | null): void {
+            if (!this._isRoundLive) {
+                return;
+            }
+            this._isRoundLive = false;
+
+            if (winner) {
+                this.wins.set(winner, this.getWins(winner) + 1);
+                Scoreboard.setGameScore(winner, this.getWins(winner));
+            }
+            this.onRoundEnded.dispatch(this._round, winner);
+
+            if (winner && this.getWins(winner) >= this.winsRequired) {
+                this.finish(winner);
+                return;
+            }
+            if (this._round >= this.config.rounds) {
+                this.finish(this.leader());
+                return;
+            }
+
+            this.resetPlayers();
+            if (this.shouldSwapSides()) {
+                this.swapSides();
+            }
+            this.intermissionTimer = Timers.after(this.config.intermission ?? 5, () => this.startRound());
+        }
+
+        public dispose(): void {
+            this.intermissionTimer?.cancel();
+            this.intermissionTimer = null;
+            this.scope?.dispose();
+        }
+
+        private startRound(): void {
+            this._round++;
+            this._isRoundLive = true;
+            if (this.config.roundTimeLimit !== undefined) {
+                Game.setTimeLimit(this.config.roundTimeLimit);
+                Game.resetTimer();
+            }
+            Game.enableAllPlayerDeploy(true);
+            Player.getAll().forEach(player => player.deploy());
+            this.onRoundStarted.dispatch(this._round);
+        }
+
+        private resetPlayers(): void {
+            for (const player of Player.getAll()) {
+                player.undeploy();
+                this.config.resetPlayer?.(player);
+            }
+        }
+
+        private shouldSwapSides(): boolean {
+            switch (this.config.swapSides ?? 'never') {
+                case 'everyRound':
+                    return true;
+                case 'halftime':
+                    return this._round === Math.floor(this.config.rounds / 2);
+                default:
+                    return false;
+            }
+        }
+
+        private swapSides(): void {
+            const [teamA, teamB] = this.config.teams;
+            const playersA = teamA.players;
+            const playersB = teamB.players;
+            if (playersA.length === playersB.length) {
+                teamA.switchWith(teamB);
+            } else {
+                playersA.forEach(player => player.setTeam(teamB));
+                playersB.forEach(player => player.setTeam(teamA));
+            }
+
+            // Round wins follow the players, not the team slot.
+            const winsA = this.getWins(teamA);
+            this.wins.set(teamA, this.getWins(teamB));
+            this.wins.set(teamB, winsA);
+            Scoreboard.setGameScore(teamA, this.getWins(teamA));
+            Scoreboard.setGameScore(teamB, this.getWins(teamB));
+            this.onSidesSwapped.dispatch();
+        }
+
+        private leader(): Team | null {
+            const [teamA, teamB] = this.config.teams;
+            const winsA = this.getWins(teamA);
+            const winsB = this.getWins(teamB);
+            if (winsA === winsB) {
+                return null;
+            }
+            return winsA > winsB ? teamA : teamB;
+        }
+
+        private finish(winner: Team | null): void {
+            this._isFinished = true;
+            this.dispose();
+            this.onMatchEnded.dispatch(winner);
+            Game.end(winner ? winner.native : undefined);
+        }
+    }
+    //#endregion
+
+    //#region Combat
+    export type CombatEntryKind = 'damage' | 'manDown' | 'death' | 'assist';
+
+    /**
+     * Something that happened to a player, as recorded by the {@link CombatLog}.
+     */
+    export interface CombatEntry {
+        kind: CombatEntryKind;
+        /** Game.matchTimeElapsed when it happened. */
+        time: number;
+        victim: Player;
+        /** The damager, killer or assisting player. Null when the game did not report one. */
+        attacker: Player | null;
+        /** The damage dealt. 0 for everything but 'damage' entries. */
+        damage: number;
+        cause: mod.DamageType | mod.DeathType | null;
+        weapon: mod.WeaponUnlock | null;
+    }
+
+    /**
+     * Keeps a short, time-windowed history of the damage, man-downs, deaths and assists each player received,
+     * for custom assists, revenge bonuses and crediting kills the game attributes to no one.
+     */
+    export abstract class CombatLog {
+        /** How many seconds of history are kept per player. */
+        public static window = 30;
+        /** The most entries kept per player. */
+        public static maxEntries = 64;
+        private static entries = new Map<number, CombatEntry[]>();
+
+        /**
+         * The entries recorded against a player, oldest first.
+         * @param player The victim.
+         * @param seconds Only entries from the last `seconds`. Defaults to the whole window.
+         */
+        public static history(player: Player, seconds: number = CombatLog.window): CombatEntry[] {
+            const now = Game.matchTimeElapsed;
+            return this.prune(player.id, now).filter(entry => now - entry.time <= seconds);
+        }
+
+        /**
+         * The other players who damaged a player recently, most damage first.
+         * @param player The victim.
+         * @param seconds How far back to look. Defaults to 10.
+         */
+        public static recentAttackers(player: Player, seconds: number = 10): Player[] {
+            const totals = new Map<Player, number>();
+            this.history(player, seconds).forEach(entry => {
+                if (entry.kind === 'damage' && entry.attacker && entry.attacker !== player) {
+                    totals.set(entry.attacker, (totals.get(entry.attacker) ?? 0) + entry.damage);
+                }
+            });
+            return [...totals.keys()].sort((a, b) => totals.get(b)! - totals.get(a)!);
+        }
+
+        /**
+         * The damage one player dealt another recently.
+         * @param player The victim.
+         * @param attacker The damager.
+         * @param seconds How far back to look. Defaults to 10.
+         */
+        public static damageFrom(player: Player, attacker: Player, seconds: number = 10): number {
+            return this.history(player, seconds)
+                .filter(entry => entry.kind === 'damage' && entry.attacker === attacker)
+                .reduce((total, entry) => total + entry.damage, 0);
+        }
+
+        /**
+         * The last other player who damaged a player within the window, or null.
+         */
+        public static lastDamager(player: Player): Player | null {
+            const history = this.history(player);
+            for (let i = history.length - 1; i >= 0; i--) {
+                const entry = history[i];
+                if (entry.kind === 'damage' && entry.attacker && entry.attacker !== player) {
+                    return entry.attacker;
+                }
+            }
+            return null;
+        }
+
+        /**
+         * The player's most recent death within the window, or null.
+         */
+        public static lastDeath(player: Player): CombatEntry | null {
+            const deaths = this.history(player).filter(entry => entry.kind === 'death');
+            return deaths.length > 0 ? deaths[deaths.length - 1] : null;
+        }
+
+        /**
+         * Forgets the history of one player, or of everyone.
+         */
+        public static clear(player?: Player): void {
+            if (player) {
+                this.entries.delete(player.id);
+            } else {
+                this.entries.clear();
+            }
+        }
+
+        /** @internal */
+        public static _recordDamage(victim: Player, attacker: Player, damage: number, damageType: mod.DamageType, weapon: mod.WeaponUnlock): void {
+            this.record({ kind: 'damage', victim, attacker, damage, cause: damageType, weapon });
+        }
+
+        /** @internal */
+        public static _recordManDown(victim: Player, attacker: Player | null): void {
+            this.record({ kind: 'manDown', victim, attacker, damage: 0, cause: null, weapon: null });
+        }
+
+        /** @internal */
+        public static _recordDeath(victim: Player, killer: Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock): void {
+            this.record({ kind: 'death', victim, attacker: killer, damage: 0, cause: deathType, weapon });
         }
 
-        private static raycastCallbacks = new Map<number, {
-            onHit: (position: Vector, normal: Vector, hitPlayer: Player | null, hitVehicle: Vehicle | null) => void;
-            onMiss: () => void;
-        }>();
+        /** @internal */
+        public static _recordAssist(assister: Player, victim: Player): void {
+            this.record({ kind: 'assist', victim, attacker: assister, damage: 0, cause: null, weapon: null });
+        }
 
         /**
-         * Performs a raycast and executes a callback on hit or miss.
-         * @param player The player initiating the raycast. Used to identify the callback.
-         * @param start The starting position of the raycast.
-         * @param stop The ending position of the raycast.
-         * @param onHit The function to call if the raycast hits something.
-         * @param onMiss The function to call if the raycast misses.
+         * Called after a player has left, so neither their history nor their hits on others outlive them.
+         * @internal
          */
-        public static raycast(
-            player: Player,
-            start: Vector,
-            stop: Vector,
-            onHit: (position: Vector, normal: Vector, hitPlayer: Player | null, hitVehicle: Vehicle | null) => void,
-            onMiss: () => void
-        ): void {
-            this.raycastCallbacks.set(player.id, { onHit, onMiss });
-            mod.RayCast(player.native, start.native, stop.native);
+        public static _handlePlayerLeft(playerId: number): void {
+            this.entries.delete(playerId);
+            this.entries.forEach((list, id) => {
+                this.entries.set(id, list.filter(entry => !entry.attacker || entry.attacker.isValid));
+            });
         }
 
-        /** @internal */
-        public static _handleRaycastHit(eventPlayer: mod.Player, eventPosition: mod.Vector, eventNormal: mod.Vector, eventHitPlayer: mod.Player, eventHitVehicle: mod.Vehicle): void {
-            const playerId = mod.GetObjId(eventPlayer);
-            const callbacks = this.raycastCallbacks.get(playerId);
-            if (callbacks) {
-                const hitPlayer = eventHitPlayer ? Player.fromNative(eventHitPlayer) : null;
-                const hitVehicle = eventHitVehicle ? Vehicle.fromNative(eventHitVehicle) : null;
-                callbacks.onHit(Vector.fromNative(eventPosition), Vector.fromNative(eventNormal), hitPlayer, hitVehicle);
-                this.raycastCallbacks.delete(playerId);
+        private static record(entry: Omit<CombatEntry, 'time'>): void {
+            const now = Game.matchTimeElapsed;
+            const list = this.prune(entry.victim.id, now);
+            list.push({ ...entry, time: now });
+            if (list.length > this.maxEntries) {
+                list.splice(0, list.length - this.maxEntries);
             }
+            this.entries.set(entry.victim.id, list);
         }
 
-        /** @internal */
-        public static _handleRaycastMiss(eventPlayer: mod.Player): void {
-            const playerId = mod.GetObjId(eventPlayer);
-            const callbacks = this.raycastCallbacks.get(playerId);
-            if (callbacks) {
-                callbacks.onMiss();
-                this.raycastCallbacks.delete(playerId);
-            }
+        private static prune(playerId: number, now: number): CombatEntry[] {
+            // Entries from the future are left over from before a Game.resetTimer.
+            const list = (this.entries.get(playerId) ?? []).filter(entry => entry.time <= now && now - entry.time <= this.window);
+            this.entries.set(playerId, list);
+            return list;
         }
     }
     //#endregion
@@ -1288,12 +3103,12 @@ namespace Portal {
                 this.eventType = eventType;
             }
 
-            public subscribe(handler: T): { unsubscribe: () => void } {
+            public subscribe(handler: T, priority: number = 0): { unsubscribe: () => void } {
                 if (this.handlers.length === 0 && !this.enabled) {
                     mod.EnableUIButtonEvent(this.widget, this.eventType, true);
                     this.enabled = true;
                 }
-                return super.subscribe(handler);
+                return super.subscribe(handler, priority);
             }
 
             public unsubscribe(handler: T): void {
@@ -1706,73 +3521,562 @@ namespace Portal {
             this._native = mod.CreateVector(x, y, z);
         }
 
-        public static fromNative(native: mod.Vector): Vector {
-            const vec = new Vector(0, 0, 0);
-            vec._native = native;
-            return vec;
+        public static fromNative(native: mod.Vector): Vector {
+            const vec = new Vector(0, 0, 0);
+            vec._native = native;
+            return vec;
+        }
+
+        public get native(): mod.Vector {
+            return this._native;
+        }
+
+        public get x(): number { return mod.XComponentOf(this._native); }
+        public get y(): number { return mod.YComponentOf(this._native); }
+        public get z(): number { return mod.ZComponentOf(this._native); }
+
+        public set x(value: number) { this._native = mod.CreateVector(value, this.y, this.z); }
+        public set y(value: number) { this._native = mod.CreateVector(this.x, value, this.z); }
+        public set z(value: number) { this._native = mod.CreateVector(this.x, this.y, value); }
+
+        // Static properties
+        public static get Zero(): Vector { return new Vector(0, 0, 0); }
+        public static get One(): Vector { return new Vector(1, 1, 1); }
+        public static get Up(): Vector { return new Vector(0, 1, 0); }
+        public static get Down(): Vector { return new Vector(0, -1, 0); }
+        public static get Forward(): Vector { return new Vector(0, 0, 1); }
+        public static get Back(): Vector { return new Vector(0, 0, -1); }
+        public static get Left(): Vector { return new Vector(-1, 0, 0); }
+        public static get Right(): Vector { return new Vector(1, 0, 0); }
+
+        // Methods
+        public add(other: Vector): Vector {
+            return Vector.fromNative(mod.Add(this._native, other.native));
+        }
+
+        public subtract(other: Vector): Vector {
+            return Vector.fromNative(mod.Subtract(this._native, other.native));
+        }
+
+        public multiply(scalar: number): Vector {
+            return Vector.fromNative(mod.Multiply(this._native, scalar));
+        }
+
+        public divide(scalar: number): Vector {
+            return Vector.fromNative(mod.Divide(this._native, scalar));
+        }
+
+        public dotProduct(other: Vector): number {
+            return mod.DotProduct(this._native, other.native);
+        }
+
+        public crossProduct(other: Vector): Vector {
+            return Vector.fromNative(mod.CrossProduct(this._native, other.native));
+        }
+
+        public distanceTo(other: Vector): number {
+            return mod.DistanceBetween(this._native, other.native);
+        }
+
+        public get magnitude(): number {
+            return Math.sqrt(mod.DotProduct(this._native, this._native));
+        }
+
+        public normalize(): Vector {
+            return Vector.fromNative(mod.Normalize(this._native));
+        }
+
+        public toString(): string {
+            return `Vector(${this.x}, ${this.y}, ${this.z})`;
+        }
+    }
+    //#endregion
+
+    //#region Variables
+    /**
+     * A typed wrapper over a native global or per-object variable.
+     * Instances are shared per slot, so onChanged sees every write made through the wrapper.
+     * A slot holds either a single value or an array; requesting it as the other kind is reported as an error.
+     */
+    export class Variable<T = any> {
+        protected _native: mod.Variable;
+        private pendingChase: ((completed: boolean) => void) | null = null;
+        private static globals = new Map<number, Variable<any>>();
+        private static objects = new WeakMap<GameObject, Map<number, Variable<any>>>();
+
+        public onChanged = new Event<(value: T, previous: T) => Promise<void>>();
+
+        protected constructor(native: mod.Variable) {
+            this._native = native;
+        }
+
+        /**
+         * Gets the wrapper for a global variable slot.
+         * @param index The global variable index.
+         */
+        public static global<T = any>(index: number): Variable<T> {
+            return Variable.cached(Variable.globals, index, Variable, () => new Variable<T>(mod.GlobalVariable(index)));
+        }
+
+        /**
+         * Gets the wrapper for a variable slot on an object.
+         * @param owner The object owning the variable.
+         * @param index The object variable index.
+         */
+        public static forObject<T = any>(owner: GameObject, index: number): Variable<T> {
+            return Variable.cached(Variable.slotsOf(owner), index, Variable, () => new Variable<T>(mod.ObjectVariable(owner.native, index)));
+        }
+
+        /**
+         * Gets the wrapper for a global variable slot holding an array.
+         * @param index The global variable index.
+         */
+        public static globalArray<E = any>(index: number): ArrayVariable<E> {
+            return Variable.cached(Variable.globals, index, ArrayVariable, () => new ArrayVariable<E>(mod.GlobalVariable(index)));
+        }
+
+        /**
+         * Gets the wrapper for a variable slot on an object holding an array.
+         * @param owner The object owning the variable.
+         * @param index The object variable index.
+         */
+        public static objectArray<E = any>(owner: GameObject, index: number): ArrayVariable<E> {
+            return Variable.cached(Variable.slotsOf(owner), index, ArrayVariable, () => new ArrayVariable<E>(mod.ObjectVariable(owner.native, index)));
+        }
+
+        private static slotsOf(owner: GameObject): Map<number, Variable<any>> {
+            let slots = Variable.objects.get(owner);
+            if (!slots) {
+                slots = new Map<number, Variable<any>>();
+                Variable.objects.set(owner, slots);
+            }
+            return slots;
+        }
+
+        private static cached<V extends Variable<any>>(slots: Map<number, Variable<any>>, index: number, type: Function & { prototype: V }, create: () => V): V {
+            const existing = slots.get(index);
+            if (existing && existing.constructor === type) {
+                return existing as V;
+            }
+            const variable = create();
+            if (existing) {
+                // The cached wrapper keeps its onChanged subscribers; the other kind gets an unshared wrapper.
+                mod.SendErrorReport(mod.Message(`Variable slot ${index} is already used as ${existing instanceof ArrayVariable ? 'an array' : 'a single value'}.`));
+                return variable;
+            }
+            slots.set(index, variable);
+            return variable;
+        }
+
+        public get native(): mod.Variable {
+            return this._native;
+        }
+
+        public get value(): T {
+            return mod.GetVariable(this._native);
+        }
+
+        public set value(value: T) {
+            const previous = this.value;
+            mod.SetVariable(this._native, value);
+            this.onChanged.dispatch(value, previous);
+        }
+
+        /**
+         * Gradually moves a numeric variable towards a limit at a fixed rate.
+         * @param limit The value to reach.
+         * @param deltaPerSecond The change per second.
+         * @returns Resolves with true when the limit is reached, or false if the chase was stopped or replaced.
+         */
+        public chaseAtRate(this: Variable<number>, limit: number, deltaPerSecond: number): Promise<boolean> {
+            const duration = deltaPerSecond === 0 ? 0 : Math.abs(limit - this.value) / Math.abs(deltaPerSecond);
+            mod.ChaseVariableAtRate(this._native, limit, deltaPerSecond);
+            return this.trackChase(limit, duration);
+        }
+
+        /**
+         * Gradually moves a numeric variable towards a limit so it arrives after the given time.
+         * @param limit The value to reach.
+         * @param durationSeconds The time in seconds to reach the limit.
+         * @returns Resolves with true when the limit is reached, or false if the chase was stopped or replaced.
+         */
+        public chaseOverTime(this: Variable<number>, limit: number, durationSeconds: number): Promise<boolean> {
+            mod.ChaseVariableOverTime(this._native, limit, durationSeconds);
+            return this.trackChase(limit, durationSeconds);
+        }
+
+        /**
+         * Stops an in-progress chase, leaving the variable at its current value.
+         */
+        public stopChasing(): void {
+            mod.StopChasingVariable(this._native);
+            this.settleChase(false);
+        }
+
+        private trackChase(this: Variable<number>, limit: number, duration: number): Promise<boolean> {
+            this.settleChase(false);
+            const start = this.value;
+            return new Promise<boolean>(resolve => {
+                const settle = (completed: boolean) => {
+                    if (this.pendingChase === settle) {
+                        this.pendingChase = null;
+                        resolve(completed);
+                    }
+                };
+                this.pendingChase = settle;
+
+                mod.Wait(duration).then(() => {
+                    if (this.pendingChase === settle) {
+                        settle(true);
+                        this.onChanged.dispatch(limit, start);
+                    }
+                });
+            });
+        }
+
+        private settleChase(completed: boolean): void {
+            const pending = this.pendingChase;
+            if (pending) {
+                pending(completed);
+            }
+        }
+    }
+
+    /**
+     * A typed wrapper over a native variable holding an array, with index access.
+     */
+    export class ArrayVariable<E = any> extends Variable<mod.Array> {
+        /** @internal */
+        constructor(native: mod.Variable) {
+            super(native);
+        }
+
+        public get length(): number {
+            return mod.CountOf(this.value);
+        }
+
+        public get(index: number): E {
+            return mod.ValueInArray(this.value, index);
+        }
+
+        /**
+         * Stores a value at an index, creating the array if needed.
+         * @param index The array index.
+         * @param value The value to store.
+         */
+        public set(index: number, value: E): void {
+            const previous = this.value;
+            mod.SetVariableAtIndex(this._native, index, value);
+            this.onChanged.dispatch(this.value, previous);
+        }
+
+        public toArray(): E[] {
+            const array = this.value;
+            const count = mod.CountOf(array);
+            const values: E[] = [];
+            for (let i = 0; i < count; i++) {
+                values.push(mod.ValueInArray(array, i));
+            }
+            return values;
+        }
+    }
+    //#endregion
+
+    //#region Data
+    export interface DataKeyOptions {
+        /** Also writes the value to this ObjectVariable slot on the owner, so native logic can read it. */
+        persistIndex?: number;
+    }
+
+    /**
+     * Identifies a typed piece of data attached to game objects, teams or squads with `owner.data(key)`.
+     */
+    export class DataKey<T> {
+        constructor(
+            public readonly name: string,
+            public readonly createDefault: () => T,
+            public readonly options: DataKeyOptions = {}
+        ) { }
+    }
+
+    /**
+     * Accessor for one key on one owner. The default value is created on first read.
+     */
+    export class DataSlot<T> {
+        /** @internal */
+        constructor(private store: DataStore, private key: DataKey<T>) { }
+
+        public get value(): T {
+            return this.store.get(this.key);
+        }
+
+        public set value(value: T) {
+            this.store.set(this.key, value);
+        }
+
+        /** Whether a value was read or written since the owner appeared or the slot was reset. */
+        public get isSet(): boolean {
+            return this.store.has(this.key);
+        }
+
+        /** Forgets the value, so the next read creates the default again. */
+        public reset(): void {
+            this.store.delete(this.key);
+        }
+    }
+
+    /**
+     * Holds the data attached to one owner.
+     */
+    class DataStore {
+        private values = new Map<DataKey<any>, any>();
+
+        constructor(private owner: GameObject | Squad) { }
+
+        public get<T>(key: DataKey<T>): T {
+            if (!this.values.has(key)) {
+                this.set(key, key.createDefault());
+            }
+            return this.values.get(key);
+        }
+
+        public set<T>(key: DataKey<T>, value: T): void {
+            this.values.set(key, value);
+            if (key.options.persistIndex !== undefined && this.owner instanceof GameObject) {
+                Variable.forObject<T>(this.owner, key.options.persistIndex).value = value;
+            }
+        }
+
+        public has(key: DataKey<any>): boolean {
+            return this.values.has(key);
+        }
+
+        public delete(key: DataKey<any>): void {
+            this.values.delete(key);
+        }
+
+        public clear(): void {
+            this.values.clear();
+        }
+    }
+    //#endregion
+
+    //#region Kill Streaks
+    interface StreakState {
+        current: number;
+        best: number;
+        multiKill: number;
+        lastKillTime: number;
+        /** The player who last killed this player, until avenged. */
+        nemesis: Player | null;
+    }
+
+    /**
+     * Tracks kill streaks, multi-kills, revenge and first blood for every player.
+     * Streaks end when the player dies; call {@link reset} between rounds to start over.
+     */
+    export abstract class KillStreaks {
+        /** The most seconds between two kills that still continue a multi-kill. */
+        public static multiKillWindow = 4;
+        private static readonly state = new DataKey<StreakState>('killStreak', () => ({ current: 0, best: 0, multiKill: 0, lastKillTime: 0, nemesis: null }));
+        private static firstBloodTaken = false;
+
+        /** Dispatched on every kill with the killer's current streak, starting at 1. */
+        public static onKillStreak = new Event<(player: Player, count: number) => Promise<void>>();
+        /** Dispatched when a kill follows the previous one within {@link multiKillWindow}, starting at 2. */
+        public static onMultiKill = new Event<(player: Player, count: number) => Promise<void>>();
+        /** Dispatched when a player kills the player who last killed them. */
+        public static onRevenge = new Event<(player: Player, victim: Player) => Promise<void>>();
+        /** Dispatched for the first kill of the match, or of the round after {@link reset}. */
+        public static onFirstBlood = new Event<(player: Player, victim: Player) => Promise<void>>();
+
+        /** The player's kills since their last death. */
+        public static current(player: Player): number {
+            return player.data(this.state).value.current;
+        }
+
+        /** The player's longest streak since they joined or the last {@link reset}. */
+        public static best(player: Player): number {
+            return player.data(this.state).value.best;
+        }
+
+        /**
+         * Clears every player's streaks and allows first blood again.
+         */
+        public static reset(): void {
+            Player.getAll().forEach(player => player.data(this.state).reset());
+            this.firstBloodTaken = false;
+        }
+
+        /** @internal */
+        public static _handleKill(killer: Player, victim: Player): void {
+            if (killer === victim) {
+                return;
+            }
+            const now = Game.matchTimeElapsed;
+            const state = killer.data(this.state).value;
+            state.current++;
+            state.best = Math.max(state.best, state.current);
+            // A clock that went backwards was reset, which breaks the multi-kill.
+            const withinWindow = state.multiKill > 0 && now >= state.lastKillTime && now - state.lastKillTime <= this.multiKillWindow;
+            state.multiKill = withinWindow ? state.multiKill + 1 : 1;
+            state.lastKillTime = now;
+
+            if (!this.firstBloodTaken) {
+                this.firstBloodTaken = true;
+                this.onFirstBlood.dispatch(killer, victim);
+            }
+            if (state.nemesis === victim) {
+                state.nemesis = null;
+                this.onRevenge.dispatch(killer, victim);
+            }
+            this.onKillStreak.dispatch(killer, state.current);
+            if (state.multiKill > 1) {
+                this.onMultiKill.dispatch(killer, state.multiKill);
+            }
+        }
+
+        /** @internal */
+        public static _handleDeath(victim: Player, killer: Player): void {
+            const state = victim.data(this.state).value;
+            state.current = 0;
+            state.multiKill = 0;
+            if (killer !== victim && killer.isValid) {
+                state.nemesis = killer;
+            }
         }
+    }
+    //#endregion
 
-        public get native(): mod.Vector {
-            return this._native;
-        }
+    //#region Stats
+    /**
+     * Named per-player counters such as captures, revives or objective time, next to the native kills, deaths and score.
+     * Values are keyed by player id and cleared when the player leaves, unless {@link keepAfterLeave} is set, so they do not
+     * survive a rejoin: the API cannot tell a rejoining player from a new one.
+     */
+    export abstract class PlayerStats {
+        /**
+         * Keeps the values of players who left, so a player who rejoins with the same id gets them back.
+         * The API cannot tell a rejoining player from a new one, and ids are recycled, so a new player may inherit them instead.
+         */
+        public static keepAfterLeave = false;
+        private static initialValues = new Map<string, number>();
+        private static values = new Map<number, Map<string, number>>();
 
-        public get x(): number { return mod.XComponentOf(this._native); }
-        public get y(): number { return mod.YComponentOf(this._native); }
-        public get z(): number { return mod.ZComponentOf(this._native); }
+        public static onStatChanged = new Event<(player: Player, name: string, value: number, previous: number) => Promise<void>>();
 
-        public set x(value: number) { this._native = mod.CreateVector(value, this.y, this.z); }
-        public set y(value: number) { this._native = mod.CreateVector(this.x, value, this.z); }
-        public set z(value: number) { this._native = mod.CreateVector(this.x, this.y, value); }
+        /** The names of the registered stats, in registration order. */
+        public static get names(): string[] {
+            return [...this.initialValues.keys()];
+        }
 
-        // Static properties
-        public static get Zero(): Vector { return new Vector(0, 0, 0); }
-        public static get One(): Vector { return new Vector(1, 1, 1); }
-        public static get Up(): Vector { return new Vector(0, 1, 0); }
-        public static get Down(): Vector { return new Vector(0, -1, 0); }
-        public static get Forward(): Vector { return new Vector(0, 0, 1); }
-        public static get Back(): Vector { return new Vector(0, 0, -1); }
-        public static get Left(): Vector { return new Vector(-1, 0, 0); }
-        public static get Right(): Vector { return new Vector(1, 0, 0); }
+        public static kills(player: Player): number {
+            return player.kills;
+        }
 
-        // Methods
-        public add(other: Vector): Vector {
-            return Vector.fromNative(mod.Add(this._native, other.native));
+        public static deaths(player: Player): number {
+            return player.deaths;
         }
 
-        public subtract(other: Vector): Vector {
-            return Vector.fromNative(mod.Subtract(this._native, other.native));
+        public static score(player: Player): number {
+            return player.score;
         }
 
-        public multiply(scalar: number): Vector {
-            return Vector.fromNative(mod.Multiply(this._native, scalar));
+        /**
+         * Declares a custom stat. Registering an existing name again only changes its initial value.
+         * @param name The name of the stat.
+         * @param initial The value every player starts with. Defaults to 0.
+         */
+        public static register(name: string, initial: number = 0): void {
+            this.initialValues.set(name, initial);
         }
 
-        public divide(scalar: number): Vector {
-            return Vector.fromNative(mod.Divide(this._native, scalar));
+        public static get(player: Player, name: string): number {
+            if (!this.isRegistered(name)) {
+                return 0;
+            }
+            return this.values.get(player.id)?.get(name) ?? this.initialValues.get(name)!;
         }
 
-        public dotProduct(other: Vector): number {
-            return mod.DotProduct(this._native, other.native);
+        public static set(player: Player, name: string, value: number): void {
+            if (!this.isRegistered(name)) {
+                return;
+            }
+            const previous = this.get(player, name);
+            let playerValues = this.values.get(player.id);
+            if (!playerValues) {
+                playerValues = new Map();
+                this.values.set(player.id, playerValues);
+            }
+            playerValues.set(name, value);
+            if (value !== previous) {
+                this.onStatChanged.dispatch(player, name, value, previous);
+            }
         }
 
-        public crossProduct(other: Vector): Vector {
-            return Vector.fromNative(mod.CrossProduct(this._native, other.native));
+        public static increment(player: Player, name: string, amount: number = 1): void {
+            this.set(player, name, this.get(player, name) + amount);
         }
 
-        public distanceTo(other: Vector): number {
-            return mod.DistanceBetween(this._native, other.native);
+        /**
+         * Increments a stat whenever an event fires.
+         * ```typescript
+         * PlayerStats.register('revives');
+         * PlayerStats.track('revives', Game.onAnyPlayerRevived, (player, reviver) => reviver);
+         * ```
+         * @param name The stat to increment.
+         * @param event The event to listen to.
+         * @param selectPlayer Picks the player to credit from the event arguments, or null to skip.
+         * @param amount The amount to add, or a function computing it from the event arguments. Defaults to 1.
+         * @returns The subscription, so tracking can be stopped.
+         */
+        public static track<T extends (...args: any[]) => Promise<void>>(
+            name: string,
+            event: Event<T>,
+            selectPlayer: (...args: Parameters<T>) => Player | null,
+            amount: number | ((...args: Parameters<T>) => number) = 1
+        ): { unsubscribe: () => void } {
+            return event.subscribe((async (...args: Parameters<T>) => {
+                const player = selectPlayer(...args);
+                if (player) {
+                    this.increment(player, name, typeof amount === 'number' ? amount : amount(...args));
+                }
+            }) as T);
         }
 
-        public get magnitude(): number {
-            return Math.sqrt(mod.DotProduct(this._native, this._native));
+        /**
+         * Puts one stat, or every stat, back to its initial value for all players.
+         */
+        public static reset(name?: string): void {
+            const connected = new Map(Player.getAll().map(player => [player.id, player] as [number, Player]));
+            this.values.forEach((playerValues, playerId) => {
+                const player = connected.get(playerId);
+                this.initialValues.forEach((initial, statName) => {
+                    if (name !== undefined && statName !== name) {
+                        return;
+                    }
+                    const previous = playerValues.get(statName);
+                    playerValues.delete(statName);
+                    if (player && previous !== undefined && previous !== initial) {
+                        this.onStatChanged.dispatch(player, statName, initial, previous);
+                    }
+                });
+            });
         }
 
-        public normalize(): Vector {
-            return Vector.fromNative(mod.Normalize(this._native));
+        /** @internal */
+        public static _handlePlayerLeft(playerId: number): void {
+            if (!this.keepAfterLeave) {
+                this.values.delete(playerId);
+            }
         }
 
-        public toString(): string {
-            return `Vector(${this.x}, ${this.y}, ${this.z})`;
+        private static isRegistered(name: string): boolean {
+            if (this.initialValues.has(name)) {
+                return true;
+            }
+            mod.SendErrorReport(mod.Message(`PlayerStats: Unknown stat "${name}". Register it first.`));
+            return false;
         }
     }
     //#endregion
@@ -1790,9 +4094,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.Spawner): Spawner {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as Spawner;
+            const existing = GameObject.lookup(mod.GetObjId(native), Spawner);
+            if (existing) {
+                return existing;
             }
             return new Spawner(native);
         }
@@ -1806,21 +4110,58 @@ namespace Portal {
         public onSpawned = new Event<(player: AIPlayer) => Promise<void>>();
     }
 
+    /**
+     * Vehicle spawner settings applied together with {@link VehicleSpawner.configure}. Omitted settings are left unchanged.
+     */
+    export interface VehicleSpawnerConfig {
+        vehicleType?: mod.VehicleList;
+        autoSpawn?: boolean;
+        /** Seconds after destruction before the vehicle respawns, when auto spawn is on. */
+        respawnTime?: number;
+        /** Destroy vehicles left outside of the combat area. */
+        abandonVehiclesOutOfCombatArea?: boolean;
+        /** Damage vehicles once they are considered abandoned. */
+        applyDamageToAbandonedVehicle?: boolean;
+        /** A vehicle with a player within this distance is not abandoned. */
+        keepAliveAbandonRadius?: number;
+        /** A vehicle within this distance of its spawner is not abandoned. */
+        keepAliveSpawnerRadius?: number;
+        /** Seconds left idle before a vehicle is considered abandoned. */
+        timeUntilAbandon?: number;
+    }
+
     export class VehicleSpawner extends GameObject {
         protected declare _native: mod.VehicleSpawner;
+        /** How far from a spawner a new vehicle may appear and still be attributed to it. */
+        public static attributionRadius = 10;
+        /** Seconds a {@link forceSpawn} waits for its vehicle before it no longer counts for attribution. */
+        public static forcedSpawnTimeout = 5;
+        private static known = new Set<VehicleSpawner>();
+        private _vehicleType: mod.VehicleList | null = null;
+        private pendingForcedSpawns: Timer[] = [];
 
         private constructor(native: mod.VehicleSpawner) {
             super(native);
+            VehicleSpawner.known.add(this);
         }
 
         public static create(position: Vector, rotation: Vector = Vector.Zero, scale: Vector = Vector.One): VehicleSpawner | null {
             return GameObject.createObject<VehicleSpawner>(mod.RuntimeSpawn_Common.VehicleSpawner, position, rotation, scale);
         }
 
+        public static getById(id: number): VehicleSpawner | null {
+            const native = mod.GetVehicleSpawner(id);
+            if (native) {
+                return VehicleSpawner.fromNative(native);
+            }
+            GameObject.evictStale(id, VehicleSpawner);
+            return null;
+        }
+
         public static fromNative(native: mod.VehicleSpawner): VehicleSpawner {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as VehicleSpawner;
+            const existing = GameObject.lookup(mod.GetObjId(native), VehicleSpawner);
+            if (existing) {
+                return existing;
             }
             return new VehicleSpawner(native);
         }
@@ -1830,9 +4171,43 @@ namespace Portal {
         }
 
         public forceSpawn(): void {
+            const expiry: Timer = Timers.after(VehicleSpawner.forcedSpawnTimeout, () => {
+                this.pendingForcedSpawns = this.pendingForcedSpawns.filter(pending => pending !== expiry);
+            }, { owner: this });
+            this.pendingForcedSpawns.push(expiry);
             mod.ForceVehicleSpawnerSpawn(this._native);
         }
 
+        /**
+         * Applies several settings at once.
+         */
+        public configure(config: VehicleSpawnerConfig): void {
+            if (config.vehicleType !== undefined) {
+                this.vehicleType = config.vehicleType;
+            }
+            if (config.autoSpawn !== undefined) {
+                this.autoSpawn = config.autoSpawn;
+            }
+            if (config.respawnTime !== undefined) {
+                this.respawnTime = config.respawnTime;
+            }
+            if (config.abandonVehiclesOutOfCombatArea !== undefined) {
+                this.abandonVehiclesOutOfCombatArea = config.abandonVehiclesOutOfCombatArea;
+            }
+            if (config.applyDamageToAbandonedVehicle !== undefined) {
+                this.applyDamageToAbandonedVehicle = config.applyDamageToAbandonedVehicle;
+            }
+            if (config.keepAliveAbandonRadius !== undefined) {
+                this.keepAliveAbandonRadius = config.keepAliveAbandonRadius;
+            }
+            if (config.keepAliveSpawnerRadius !== undefined) {
+                this.keepAliveSpawnerRadius = config.keepAliveSpawnerRadius;
+            }
+            if (config.timeUntilAbandon !== undefined) {
+                this.timeUntilAbandon = config.timeUntilAbandon;
+            }
+        }
+
         public set autoSpawn(enabled: boolean) {
             mod.SetVehicleSpawnerAutoSpawn(this._native, enabled);
         }
@@ -1843,10 +4218,97 @@ namespace Portal {
 
         public set vehicleType(vehicle: mod.VehicleList) {
             mod.SetVehicleSpawnerVehicleType(this._native, vehicle);
+            this._vehicleType = vehicle;
+        }
+
+        public set abandonVehiclesOutOfCombatArea(enabled: boolean) {
+            mod.SetVehicleSpawnerAbandonVehiclesOutOfCombatArea(this._native, enabled);
+        }
+
+        public set applyDamageToAbandonedVehicle(enabled: boolean) {
+            mod.SetVehicleSpawnerApplyDamageToAbandonVehicle(this._native, enabled);
+        }
+
+        public set keepAliveAbandonRadius(radius: number) {
+            mod.SetVehicleSpawnerKeepAliveAbandonRadius(this._native, radius);
+        }
+
+        public set keepAliveSpawnerRadius(radius: number) {
+            mod.SetVehicleSpawnerKeepAliveSpawnerRadius(this._native, radius);
+        }
+
+        public set timeUntilAbandon(time: number) {
+            mod.SetVehicleSpawnerTimeUntilAbandon(this._native, time);
+        }
+
+        /**
+         * Works out which spawner produced a new vehicle, since the game does not say: the nearest spawner within
+         * {@link attributionRadius} whose vehicle type, if set through the wrapper, matches. A spawner waiting on a
+         * {@link forceSpawn} younger than {@link forcedSpawnTimeout} wins over any spawner that is not, wherever it stands
+         * within the radius. Only spawners the wrapper has seen are considered.
+         * @internal
+         */
+        public static _attribute(vehicle: Vehicle): VehicleSpawner | null {
+            const position = vehicle.position;
+            let best: VehicleSpawner | null = null;
+            let bestDistance = Infinity;
+            let bestForced = false;
+            for (const spawner of [...this.known]) {
+                if (!spawner.isValid) {
+                    this.known.delete(spawner);
+                    continue;
+                }
+                if (spawner._vehicleType !== null && !vehicle.is(spawner._vehicleType)) {
+                    continue;
+                }
+                const distance = spawner.position.distanceTo(position);
+                const forced = spawner.pendingForcedSpawns.length > 0;
+                if (distance > this.attributionRadius) {
+                    continue;
+                }
+                if ((forced && !bestForced) || (forced === bestForced && distance < bestDistance)) {
+                    best = spawner;
+                    bestDistance = distance;
+                    bestForced = forced;
+                }
+            }
+
+            if (best) {
+                if (bestForced) {
+                    best.pendingForcedSpawns.shift()!.cancel();
+                }
+                vehicle.spawner = best;
+            }
+            return best;
         }
 
         // Events
         public onGoing = new Event<() => Promise<void>>();
+        /**
+         * Dispatched when a vehicle from this spawner appears, matched by {@link VehicleSpawner.attributionRadius}
+         * and pending {@link forceSpawn} calls.
+         */
+        public onVehicleSpawned = new Event<(vehicle: Vehicle) => Promise<void>>();
+    }
+
+    /**
+     * Emplacement spawner settings applied together with {@link EmplacementSpawner.configure}. Omitted settings are left unchanged.
+     */
+    export interface EmplacementSpawnerConfig {
+        emplacementType?: mod.StationaryEmplacements;
+        autoSpawn?: boolean;
+        /** Seconds after destruction before the emplacement respawns, when auto spawn is on. */
+        respawnTime?: number;
+        /** Destroy emplacements left outside of the combat area. */
+        abandonOutOfCombatArea?: boolean;
+        /** Damage emplacements once they are considered abandoned. */
+        applyDamageToAbandoned?: boolean;
+        /** An emplacement with a player within this distance is not abandoned. */
+        keepAliveAbandonRadius?: number;
+        /** An emplacement within this distance of its spawner is not abandoned. */
+        spawnerRadius?: number;
+        /** Seconds left idle before an emplacement is considered abandoned. */
+        timeUntilAbandon?: number;
     }
 
     export class EmplacementSpawner extends GameObject {
@@ -1856,10 +4318,26 @@ namespace Portal {
             super(native);
         }
 
+        /**
+         * Places an emplacement spawner at runtime, e.g. to add turrets in a defence mode.
+         */
+        public static create(position: Vector, rotation: Vector = Vector.Zero, scale: Vector = Vector.One): EmplacementSpawner | null {
+            return GameObject.createObject<EmplacementSpawner>(mod.RuntimeSpawn_Common.StationaryEmplacementSpawner, position, rotation, scale);
+        }
+
+        public static getById(id: number): EmplacementSpawner | null {
+            const native = mod.GetEmplacementSpawner(id);
+            if (native) {
+                return EmplacementSpawner.fromNative(native);
+            }
+            GameObject.evictStale(id, EmplacementSpawner);
+            return null;
+        }
+
         public static fromNative(native: mod.EmplacementSpawner): EmplacementSpawner {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as EmplacementSpawner;
+            const existing = GameObject.lookup(mod.GetObjId(native), EmplacementSpawner);
+            if (existing) {
+                return existing;
             }
             return new EmplacementSpawner(native);
         }
@@ -1868,6 +4346,75 @@ namespace Portal {
             return this._native;
         }
 
+        /**
+         * Spawns one emplacement of the current type.
+         */
+        public forceSpawn(): void {
+            mod.ForceEmplacementSpawnerSpawn(this._native);
+        }
+
+        /**
+         * Applies several settings at once.
+         */
+        public configure(config: EmplacementSpawnerConfig): void {
+            if (config.emplacementType !== undefined) {
+                this.emplacementType = config.emplacementType;
+            }
+            if (config.autoSpawn !== undefined) {
+                this.autoSpawn = config.autoSpawn;
+            }
+            if (config.respawnTime !== undefined) {
+                this.respawnTime = config.respawnTime;
+            }
+            if (config.abandonOutOfCombatArea !== undefined) {
+                this.abandonOutOfCombatArea = config.abandonOutOfCombatArea;
+            }
+            if (config.applyDamageToAbandoned !== undefined) {
+                this.applyDamageToAbandoned = config.applyDamageToAbandoned;
+            }
+            if (config.keepAliveAbandonRadius !== undefined) {
+                this.keepAliveAbandonRadius = config.keepAliveAbandonRadius;
+            }
+            if (config.spawnerRadius !== undefined) {
+                this.spawnerRadius = config.spawnerRadius;
+            }
+            if (config.timeUntilAbandon !== undefined) {
+                this.timeUntilAbandon = config.timeUntilAbandon;
+            }
+        }
+
+        public set emplacementType(type: mod.StationaryEmplacements) {
+            mod.SetEmplacementSpawnerType(this._native, type);
+        }
+
+        public set autoSpawn(enabled: boolean) {
+            mod.SetEmplacementSpawnerAutoSpawn(this._native, enabled);
+        }
+
+        public set respawnTime(time: number) {
+            mod.SetEmplacementSpawnerRespawnTime(this._native, time);
+        }
+
+        public set abandonOutOfCombatArea(enabled: boolean) {
+            mod.SetEmplacementSpawnerAbandonVehicleOutOfCombatArea(this._native, enabled);
+        }
+
+        public set applyDamageToAbandoned(enabled: boolean) {
+            mod.SetEmplacementSpawnerApplyDamageToAbandonVehicle(this._native, enabled);
+        }
+
+        public set keepAliveAbandonRadius(radius: number) {
+            mod.SetEmplacementSpawnerKeepAliveAbandonRadius(this._native, radius);
+        }
+
+        public set spawnerRadius(radius: number) {
+            mod.SetEmplacementSpawnerSpawnerRadius(this._native, radius);
+        }
+
+        public set timeUntilAbandon(time: number) {
+            mod.SetEmplacementSpawnerTimeUntilAbandon(this._native, time);
+        }
+
         // Events
         public onGoing = new Event<() => Promise<void>>();
     }
@@ -1884,9 +4431,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.LootSpawner): LootSpawner {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as LootSpawner;
+            const existing = GameObject.lookup(mod.GetObjId(native), LootSpawner);
+            if (existing) {
+                return existing;
             }
             return new LootSpawner(native);
         }
@@ -1911,9 +4458,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.SpawnPoint): SpawnPoint {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as SpawnPoint;
+            const existing = GameObject.lookup(mod.GetObjId(native), SpawnPoint);
+            if (existing) {
+                return existing;
             }
             return new SpawnPoint(native);
         }
@@ -1940,9 +4487,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.AreaTrigger): AreaTrigger {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as AreaTrigger;
+            const existing = GameObject.lookup(mod.GetObjId(native), AreaTrigger);
+            if (existing) {
+                return existing;
             }
             return new AreaTrigger(native);
         }
@@ -1956,9 +4503,7 @@ namespace Portal {
             if (native) {
                 return AreaTrigger.fromNative(native);
             }
-            if (GameObject.hasInstance(id)) {
-                GameObject.removeInstance(id);
-            }
+            GameObject.evictStale(id, AreaTrigger);
             return null;
         }
 
@@ -1980,9 +4525,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.InteractPoint): InteractPoint {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as InteractPoint;
+            const existing = GameObject.lookup(mod.GetObjId(native), InteractPoint);
+            if (existing) {
+                return existing;
             }
             return new InteractPoint(native);
         }
@@ -2006,9 +4551,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.SpatialObject): SpatialObject {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as SpatialObject;
+            const existing = GameObject.lookup(mod.GetObjId(native), SpatialObject);
+            if (existing) {
+                return existing;
             }
             return new SpatialObject(native);
         }
@@ -2028,9 +4573,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.Team): Team {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as Team;
+            const existing = GameObject.lookup(mod.GetObjId(native), Team);
+            if (existing) {
+                return existing;
             }
             return new Team(native);
         }
@@ -2065,6 +4610,14 @@ namespace Portal {
             return Squad.fromNative(squad);
         }
 
+        /**
+         * Swaps all players between this team and another. Both teams must have the same human and bot count.
+         * @param other The team to swap players with.
+         */
+        public switchWith(other: Team): void {
+            mod.SwitchTeams(this._native, other.native);
+        }
+
         // Events
         public onGoing = new Event<() => Promise<void>>();
         public onPlayerSwitchIn = new Event<(player: Player) => Promise<void>>();
@@ -2072,43 +4625,56 @@ namespace Portal {
 
     export class Squad {
         protected _native: mod.Squad;
-        protected static squadInstanceMap = new Map<number, Squad>();
+        protected static squadInstanceMap = new Map<mod.Squad, Squad>();
+        private _data: DataStore | null = null;
 
         private constructor(native: mod.Squad) {
             this._native = native;
         }
 
         public static fromNative(native: mod.Squad): Squad {
-            // The API does not provide a direct way to get a unique ID for a squad as it isn't part of mod.Object type.
-            // We'll use the object ID of the first player in the squad as a proxy for the squad's identity.
-            // This is a workaround and might not be perfectly stable if squad compositions change rapidly.
+            // Squads are not mod.Objects and have no id, so wrappers are keyed by the native squad that
+            // GetSquad returns for a team and squad number, the identity the rest of this class compares against.
+            let squad = Squad.squadInstanceMap.get(native);
+            if (!squad) {
+                squad = new Squad(native);
+                Squad.squadInstanceMap.set(native, squad);
+            }
+            return squad;
+        }
+
+        /** @internal Releases the wrappers and data of squads that no player belongs to anymore. */
+        public static _releaseEmpty(): void {
+            const occupied = new Set<mod.Squad>();
             const allPlayers = mod.AllPlayers();
             const count = mod.CountOf(allPlayers);
-            let representativeId = -1;
-
             for (let i = 0; i < count; i++) {
-                const player = mod.ValueInArray(allPlayers, i) as mod.Player;
-                if (mod.GetSquad(player) === native) {
-                    representativeId = mod.GetObjId(player);
-                    break;
-                }
-            }
-
-            if (representativeId !== -1 && Squad.squadInstanceMap.has(representativeId)) {
-                return Squad.squadInstanceMap.get(representativeId)!;
+                occupied.add(mod.GetSquad(mod.ValueInArray(allPlayers, i) as mod.Player));
             }
-
-            const newSquad = new Squad(native);
-            if (representativeId !== -1) {
-                Squad.squadInstanceMap.set(representativeId, newSquad);
+            for (const [native, squad] of Squad.squadInstanceMap) {
+                if (!occupied.has(native)) {
+                    squad._data?.clear();
+                    Squad.squadInstanceMap.delete(native);
+                }
             }
-            return newSquad;
         }
 
         public get native(): mod.Squad {
             return this._native;
         }
 
+        /**
+         * Gets the accessor for data attached to this squad. The data is cleared once the last player
+         * leaves the squad, by leaving the game or switching team.
+         * @param key The key identifying the data.
+         */
+        public data<T>(key: DataKey<T>): DataSlot<T> {
+            if (!this._data) {
+                this._data = new DataStore(this);
+            }
+            return new DataSlot(this._data, key);
+        }
+
         /*
         public get id(): number {
             return mod.GetObjId(this._native);
@@ -2161,7 +4727,7 @@ namespace Portal {
      */
     export interface AIBehavior {
         onSpawn(player: AIPlayer): void;
-        onDamaged(player: AIPlayer, damager: Player, damage: number, weapon: mod.WeaponUnlock): void;
+        onDamaged(player: AIPlayer, damager: Player, damage: number, weapon: mod.WeaponUnlock, healthBefore: number, healthAfter: number): void;
         onDeath(player: AIPlayer, killer: Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock): void;
         onGoing?(player: AIPlayer): void;
     }
@@ -2250,9 +4816,9 @@ namespace Portal {
          * Called by the OnPlayerDamaged event handler to delegate to the AI's behavior.
          * @internal
          */
-        public static _handleDamage(victim: AIPlayer, damager: Player, damage: number, weapon: mod.WeaponUnlock): void {
+        public static _handleDamage(victim: AIPlayer, damager: Player, damage: number, weapon: mod.WeaponUnlock, healthBefore: number, healthAfter: number): void {
             if (victim.personality) {
-                victim.personality.behavior.onDamaged(victim, damager, damage, weapon);
+                victim.personality.behavior.onDamaged(victim, damager, damage, weapon, healthBefore, healthAfter);
             }
         }
 
@@ -2275,6 +4841,10 @@ namespace Portal {
     export interface ScoreboardColumn {
         name: string | mod.Message;
         width: number;
+        /** Computes the column for a player. Columns with a value are pushed to the scoreboard automatically. */
+        value?: (player: Player) => number;
+        /** Shows a {@link PlayerStats} stat, as a shorthand for `value`. */
+        stat?: string;
     }
 
     export interface ScoreboardConfig {
@@ -2282,14 +4852,27 @@ namespace Portal {
         header?: string | mod.Message | { team1: string | mod.Message; team2: string | mod.Message };
         columns: ScoreboardColumn[];
         sorting?: {
-            columnIndex: number;
+            /** The native column number, passed unchanged. {@link Scoreboard.sortBy} numbers columns by their position in `columns`, from 0. */
+            columnIndex?: number;
+            /** The name of a column declared with a string name, instead of `columnIndex`. */
+            column?: string;
             reverse: boolean;
         };
+        /** Seconds between full refreshes of bound columns, on top of the refresh on stat changes. Defaults to 1. */
+        refreshInterval?: number;
     }
 
     export abstract class Scoreboard {
+        private static columns: ScoreboardColumn[] = [];
+        private static refreshInterval = 1;
+        private static bindingScope: SubscriptionScope | null = null;
+        private static pushedValues = new Map<number, string>();
+        /** The values last given to {@link setPlayerValues}, sent again for the unbound columns on every refresh. */
+        private static manualValues = new Map<number, number[]>();
+
         public static create(config: ScoreboardConfig): void {
             mod.SetScoreboardType(config.type);
+            this.refreshInterval = config.refreshInterval ?? 1;
 
             if (config.header) {
                 this.setHeader(config.header);
@@ -2300,8 +4883,84 @@ namespace Portal {
             }
 
             if (config.sorting) {
-                mod.SetScoreboardSorting(config.sorting.columnIndex, config.sorting.reverse);
+                if (config.sorting.column !== undefined) {
+                    this.sortBy(config.sorting.column, config.sorting.reverse);
+                } else if (config.sorting.columnIndex !== undefined) {
+                    mod.SetScoreboardSorting(config.sorting.columnIndex, config.sorting.reverse);
+                }
+            }
+        }
+
+        /**
+         * Sorts the scoreboard on a column declared in {@link create} or {@link setColumns}.
+         * @param column The column's string name.
+         * @param reverse Whether to reverse the sorting.
+         */
+        public static sortBy(column: string, reverse: boolean = false): void {
+            const index = this.columns.findIndex(c => c.name === column);
+            if (index === -1) {
+                mod.SendErrorReport(mod.Message(`Scoreboard: Unknown column "${column}".`));
+                return;
             }
+            // Numbered like sorting.columnIndex, which is passed to the native unchanged.
+            mod.SetScoreboardSorting(index, reverse);
+        }
+
+        /**
+         * Pushes the bound column values of one player, or of every player, to the scoreboard.
+         * Values that did not change since the last push are skipped.
+         */
+        public static refresh(player?: Player): void {
+            if (!this.bindingScope) {
+                return;
+            }
+            const players = player ? [player] : Player.getAll();
+            players.forEach(p => {
+                if (!p.isValid) {
+                    return;
+                }
+                const manual = this.manualValues.get(p.id);
+                const values = this.columns.map((column, index) => {
+                    if (column.value) {
+                        return column.value(p);
+                    }
+                    if (column.stat !== undefined) {
+                        return PlayerStats.get(p, column.stat);
+                    }
+                    return manual?.[index] ?? 0;
+                });
+                const key = values.join(',');
+                if (this.pushedValues.get(p.id) !== key) {
+                    this.pushedValues.set(p.id, key);
+                    this.pushPlayerValues(p, values);
+                }
+            });
+        }
+
+        /**
+         * Refreshes bound columns when stats, kills or deaths change and on a throttled tick.
+         */
+        private static bind(): void {
+            this.bindingScope?.dispose();
+            this.bindingScope = null;
+            this.pushedValues.clear();
+            this.manualValues.clear();
+            if (!this.columns.some(column => column.value || column.stat !== undefined)) {
+                return;
+            }
+
+            const scope = new SubscriptionScope();
+            this.bindingScope = scope;
+            scope.subscribe(PlayerStats.onStatChanged, async player => this.refresh(player));
+            scope.subscribe(Game.onAnyPlayerEarnedKill, async player => this.refresh(player));
+            scope.subscribe(Game.onAnyPlayerDied, async victim => this.refresh(victim));
+            scope.subscribe(Game.onPlayerJoined, async player => this.refresh(player));
+            scope.subscribe(Game.onPlayerLeft, async playerId => {
+                this.pushedValues.delete(playerId);
+                this.manualValues.delete(playerId);
+            });
+            Timers.every(this.refreshInterval, () => this.refresh(), { scope });
+            this.refresh();
         }
 
         public static setHeader(header: string | mod.Message | { team1: string | mod.Message; team2: string | mod.Message }): void {
@@ -2315,7 +4974,12 @@ namespace Portal {
             }
         }
 
+        /**
+         * Declares the columns. Columns with a `value` or `stat` are kept up to date for every player from then on.
+         */
         public static setColumns(columns: ScoreboardColumn[]): void {
+            this.columns = columns;
+            this.pushedValues.clear();
             const names = columns.map(c => typeof c.name === 'string' ? mod.Message(c.name) : c.name);
             const widths = columns.map(c => c.width);
 
@@ -2343,11 +5007,24 @@ namespace Portal {
                 default:
                     // It's good practice to handle cases where the array size is out of bounds.
                     mod.SendErrorReport(mod.Message(`Scoreboard: Invalid number of columns. Expected 1-5, got ${columns.length}.`));
-                    break;
+                    return;
             }
+            this.bind();
         }
 
+        /**
+         * Sets a player's value for every column. While columns are bound, the values of the unbound columns are kept
+         * and sent again with each refresh, and the bound columns are overwritten by the next refresh that changes them.
+         */
         public static setPlayerValues(player: Player, values: number[]): void {
+            if (this.bindingScope) {
+                this.manualValues.set(player.id, values);
+                this.pushedValues.set(player.id, values.join(','));
+            }
+            this.pushPlayerValues(player, values);
+        }
+
+        private static pushPlayerValues(player: Player, values: number[]): void {
             switch (values.length) {
                 case 1:
                     mod.SetScoreboardPlayerValues(player.native, values[0]);
@@ -2394,9 +5071,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.WorldIcon): WorldIcon {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as WorldIcon;
+            const existing = GameObject.lookup(mod.GetObjId(native), WorldIcon);
+            if (existing) {
+                return existing;
             }
             return new WorldIcon(native);
         }
@@ -2419,9 +5096,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.VFX): VFX {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as VFX;
+            const existing = GameObject.lookup(mod.GetObjId(native), VFX);
+            if (existing) {
+                return existing;
             }
             return new VFX(native);
         }
@@ -2435,9 +5112,7 @@ namespace Portal {
             if (native) {
                 return VFX.fromNative(native);
             }
-            if (GameObject.hasInstance(id)) {
-                GameObject.removeInstance(id);
-            }
+            GameObject.evictStale(id, VFX);
             return null;
         }
 
@@ -2466,9 +5141,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.SFX): SFX {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as SFX;
+            const existing = GameObject.lookup(mod.GetObjId(native), SFX);
+            if (existing) {
+                return existing;
             }
             return new SFX(native);
         }
@@ -2520,9 +5195,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.WaypointPath): WaypointPath {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as WaypointPath;
+            const existing = GameObject.lookup(mod.GetObjId(native), WaypointPath);
+            if (existing) {
+                return existing;
             }
             return new WaypointPath(native);
         }
@@ -2536,9 +5211,7 @@ namespace Portal {
             if (native) {
                 return WaypointPath.fromNative(native);
             }
-            if (GameObject.hasInstance(id)) {
-                GameObject.removeInstance(id);
-            }
+            GameObject.evictStale(id, WaypointPath);
             return null;
         }
 
@@ -2560,9 +5233,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.RingOfFire): RingOfFire {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as RingOfFire;
+            const existing = GameObject.lookup(mod.GetObjId(native), RingOfFire);
+            if (existing) {
+                return existing;
             }
             return new RingOfFire(native);
         }
@@ -2576,9 +5249,7 @@ namespace Portal {
             if (native) {
                 return RingOfFire.fromNative(native);
             }
-            if (GameObject.hasInstance(id)) {
-                GameObject.removeInstance(id);
-            }
+            GameObject.evictStale(id, RingOfFire);
             return null;
         }
 
@@ -2597,9 +5268,9 @@ namespace Portal {
         }
 
         public static fromNative(native: mod.ScreenEffect): ScreenEffect {
-            const id = mod.GetObjId(native);
-            if (GameObject.hasInstance(id)) {
-                return GameObject.getInstance(id) as ScreenEffect;
+            const existing = GameObject.lookup(mod.GetObjId(native), ScreenEffect);
+            if (existing) {
+                return existing;
             }
             return new ScreenEffect(native);
         }
@@ -2612,12 +5283,22 @@ namespace Portal {
 
     //#region AISpawner
     export abstract class AISpawner {
+        private static unspawnOnDead = new Set<number>(); // spawnerId
+        private static unspawnDelays = new Map<number, number>(); // spawnerId -> seconds
+        private static spawnedAIs = new Map<number, Set<AIPlayer>>(); // spawnerId -> AIs alive from it
+
         public static setUnspawnOnDead(spawner: Spawner, enable: boolean): void {
             mod.AISetUnspawnOnDead(spawner.native, enable);
+            if (enable) {
+                this.unspawnOnDead.add(spawner.id);
+            } else {
+                this.unspawnOnDead.delete(spawner.id);
+            }
         }
 
         public static setUnspawnDelay(spawner: Spawner, delay: number): void {
             mod.SetUnspawnDelayInSeconds(spawner.native, delay);
+            this.unspawnDelays.set(spawner.id, delay);
         }
 
         public static spawnAIFromSpawner(spawner: Spawner, soldierClass?: mod.SoldierClass, name?: string, team?: Team): void {
@@ -2642,6 +5323,39 @@ namespace Portal {
 
         public static unspawnAllAIsFromSpawner(spawner: Spawner): void {
             mod.UnspawnAllAIsFromAISpawner(spawner.native);
+            const spawned = this.spawnedAIs.get(spawner.id);
+            if (spawned) {
+                this.spawnedAIs.delete(spawner.id);
+                spawned.forEach(player => player._release());
+            }
+        }
+
+        /**
+         * Called by the OnSpawnerSpawned event handler to remember which spawner an AI came from.
+         * @internal
+         */
+        public static _registerSpawn(player: AIPlayer, spawner: Spawner): void {
+            player.spawner = spawner;
+            let spawned = this.spawnedAIs.get(spawner.id);
+            if (!spawned) {
+                spawned = new Set<AIPlayer>();
+                this.spawnedAIs.set(spawner.id, spawned);
+            }
+            spawned.add(player);
+        }
+
+        /**
+         * Called by the OnPlayerDied event handler. Evicts the AI's wrapper once its spawner unspawns the body.
+         * @internal
+         */
+        public static async _handleDeath(player: AIPlayer): Promise<void> {
+            const spawner = player.spawner;
+            if (!spawner || !this.unspawnOnDead.has(spawner.id)) {
+                return;
+            }
+            this.spawnedAIs.get(spawner.id)?.delete(player);
+            await mod.Wait(this.unspawnDelays.get(spawner.id) ?? 0);
+            player._release();
         }
     }
     //#endregion
@@ -2690,6 +5404,7 @@ export function OngoingMCOM(eventMCOM: mod.MCOM) {
 
 export function OngoingPlayer(eventPlayer: mod.Player) {
     const player = Portal.Player.fromNative(eventPlayer);
+    player._refreshHealth();
     player.onGoing.dispatch();
 }
 
@@ -2745,26 +5460,31 @@ export function Ongoing() {
 export function OnPlayerDied(eventPlayer: mod.Player, eventOtherPlayer: mod.Player, eventDeathType: mod.DeathType, eventWeaponUnlock: mod.WeaponUnlock) {
     const victim = Portal.Player.fromNative(eventPlayer);
     const killer = Portal.Player.fromNative(eventOtherPlayer);
+    Portal.CombatLog._recordDeath(victim, killer, eventDeathType, eventWeaponUnlock);
+    Portal.KillStreaks._handleDeath(victim, killer);
     victim.onPlayerDied.dispatch(killer, eventDeathType, eventWeaponUnlock);
+    Portal.Game.onAnyPlayerDied.dispatch(victim, killer, eventDeathType, eventWeaponUnlock);
 
     const aiVictim = victim.asAI();
     if (aiVictim) {
         Portal.AIManager._handleDeath(aiVictim, killer, eventDeathType, eventWeaponUnlock);
+        Portal.AISpawner._handleDeath(aiVictim);
     }
 }
 
 export function OnPlayerDamaged(eventPlayer: mod.Player, eventOtherPlayer: mod.Player, eventDamageType: mod.DamageType, eventWeaponUnlock: mod.WeaponUnlock) {
     const victim = Portal.Player.fromNative(eventPlayer);
     const damager = Portal.Player.fromNative(eventOtherPlayer);
-    const damage = mod.GetSoldierState(victim.native, mod.SoldierStateNumber.CurrentHealth) - victim.currentHealth; // This is a workaround
-    victim.onPlayerDamaged.dispatch(damager, eventDamageType, eventWeaponUnlock);
+    // The API does not provide the damage amount, so it is measured against the cached health.
+    const { healthBefore, healthAfter } = victim._takeDamageReport();
+    const damage = healthBefore - healthAfter;
+    Portal.CombatLog._recordDamage(victim, damager, damage, eventDamageType, eventWeaponUnlock);
+    victim.onPlayerDamaged.dispatch(damager, eventDamageType, eventWeaponUnlock, damage, healthBefore, healthAfter);
+    Portal.Game.onAnyPlayerDamaged.dispatch(victim, damager, eventDamageType, eventWeaponUnlock, damage, healthBefore, healthAfter);
 
     const aiVictim = victim.asAI();
     if (aiVictim) {
-        // The API does not provide the damage amount directly in this event.
-        // A possible workaround is to get health before and after, but that's not reliable.
-        // For now, we'll pass 0 and the behavior can calculate it if needed.
-        Portal.AIManager._handleDamage(aiVictim, damager, 0, eventWeaponUnlock);
+        Portal.AIManager._handleDamage(aiVictim, damager, damage, eventWeaponUnlock, healthBefore, healthAfter);
     }
 }
 
@@ -2773,6 +5493,7 @@ export function OnPlayerEnterVehicle(eventPlayer: mod.Player, eventVehicle: mod.
     const vehicle = Portal.Vehicle.fromNative(eventVehicle);
     player.onPlayerEnterVehicle.dispatch(vehicle);
     vehicle.onPlayerEnterVehicle.dispatch(player);
+    Portal.Game.onAnyPlayerEnterVehicle.dispatch(player, vehicle);
 }
 
 export function OnPlayerExitVehicle(eventPlayer: mod.Player, eventVehicle: mod.Vehicle) {
@@ -2780,11 +5501,14 @@ export function OnPlayerExitVehicle(eventPlayer: mod.Player, eventVehicle: mod.V
     const vehicle = Portal.Vehicle.fromNative(eventVehicle);
     player.onPlayerExitVehicle.dispatch(vehicle);
     vehicle.onPlayerExitVehicle.dispatch(player);
+    Portal.Game.onAnyPlayerExitVehicle.dispatch(player, vehicle);
 }
 
 export function OnVehicleDestroyed(eventVehicle: mod.Vehicle) {
     const vehicle = Portal.Vehicle.fromNative(eventVehicle);
     vehicle.onVehicleDestroyed.dispatch();
+    Portal.Game.onAnyVehicleDestroyed.dispatch(vehicle);
+    vehicle._release();
 }
 
 export function OnAIMoveToFailed(eventPlayer: mod.Player) {
@@ -2866,23 +5590,35 @@ export function OnAIWaypointIdleSucceeded(eventPlayer: mod.Player) {
 }
 
 export function OnSpawnerSpawned(eventPlayer: mod.Player, eventSpawner: mod.Spawner) {
+    const previous = Portal.GameObject.getInstance(mod.GetObjId(eventPlayer));
+    if (previous instanceof Portal.AIPlayer && previous.spawner) {
+        // The id was recycled from an AI spawned earlier, so its wrapper and handlers are stale.
+        previous._release();
+    }
+
     const spawner = Portal.Spawner.fromNative(eventSpawner);
     const player = Portal.Player.fromNative(eventPlayer).asAI();
     if (player) {
+        Portal.AISpawner._registerSpawn(player, spawner);
         spawner.onSpawned.dispatch(player);
+        Portal.Game.onAnyAISpawned.dispatch(player, spawner);
         Portal.AIManager._assignPersonality(player, spawner);
     }
 }
 
 export function OnVehicleSpawned(eventVehicle: mod.Vehicle) {
     const vehicle = Portal.Vehicle.fromNative(eventVehicle);
+    const spawner = Portal.VehicleSpawner._attribute(vehicle);
+    spawner?.onVehicleSpawned.dispatch(vehicle);
     Portal.Game.onVehicleSpawned.dispatch(vehicle);
 }
 
 export function OnMandown(player: mod.Player, killer: mod.Player) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     const aKiller = killer ? Portal.GameObject.fromNative(killer) as Portal.Player : null;
+    Portal.CombatLog._recordManDown(aPlayer, aKiller);
     aPlayer.onManDown.dispatch(aKiller);
+    Portal.Game.onAnyPlayerManDown.dispatch(aPlayer, aKiller);
 }
 
 export function OnRayCastHit(eventPlayer: mod.Player, eventPosition: mod.Vector, eventNormal: mod.Vector, eventHitPlayer: mod.Player, eventHitVehicle: mod.Vehicle) {
@@ -2896,21 +5632,26 @@ export function OnRayCastMissed(eventPlayer: mod.Player) {
 export function OnCapturePointCaptured(eventCapturePoint: mod.CapturePoint) {
     const capturePoint = Portal.CapturePoint.fromNative(eventCapturePoint);
     capturePoint.onCaptured.dispatch();
+    Portal.Game.onAnyCapturePointCaptured.dispatch(capturePoint);
 }
 export function OnPlayerEarnedKillAssist(player: mod.Player, victim: mod.Player) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     const aVictim = Portal.GameObject.fromNative(victim) as Portal.Player;
+    Portal.CombatLog._recordAssist(aPlayer, aVictim);
     aPlayer.onEarnedKillAssist.dispatch(aVictim);
+    Portal.Game.onAnyPlayerEarnedKillAssist.dispatch(aPlayer, aVictim);
 }
 
 export function OnCapturePointCapturing(eventCapturePoint: mod.CapturePoint) {
     const capturePoint = Portal.CapturePoint.fromNative(eventCapturePoint);
     capturePoint.onCapturing.dispatch();
+    Portal.Game.onAnyCapturePointCapturing.dispatch(capturePoint);
 }
 
 export function OnCapturePointLost(eventCapturePoint: mod.CapturePoint) {
     const capturePoint = Portal.CapturePoint.fromNative(eventCapturePoint);
     capturePoint.onLost.dispatch();
+    Portal.Game.onAnyCapturePointLost.dispatch(capturePoint);
 }
 
 export function OnPlayerEnterCapturePoint(eventPlayer: mod.Player, eventCapturePoint: mod.CapturePoint) {
@@ -2918,6 +5659,7 @@ export function OnPlayerEnterCapturePoint(eventPlayer: mod.Player, eventCaptureP
     const capturePoint = Portal.CapturePoint.fromNative(eventCapturePoint);
     player.onEnterCapturePoint.dispatch(capturePoint);
     capturePoint.onPlayerEnter.dispatch(player);
+    Portal.Game.onAnyPlayerEnterCapturePoint.dispatch(player, capturePoint);
 }
 
 export function OnPlayerExitCapturePoint(eventPlayer: mod.Player, eventCapturePoint: mod.CapturePoint) {
@@ -2925,6 +5667,7 @@ export function OnPlayerExitCapturePoint(eventPlayer: mod.Player, eventCapturePo
     const capturePoint = Portal.CapturePoint.fromNative(eventCapturePoint);
     player.onExitCapturePoint.dispatch(capturePoint);
     capturePoint.onPlayerExit.dispatch(player);
+    Portal.Game.onAnyPlayerExitCapturePoint.dispatch(player, capturePoint);
 }
 
 export function OnPlayerExitVehicleSeat(player: mod.Player, vehicle: mod.Vehicle, seat: number) {
@@ -2932,6 +5675,7 @@ export function OnPlayerExitVehicleSeat(player: mod.Player, vehicle: mod.Vehicle
     const aVehicle = Portal.GameObject.fromNative(vehicle) as Portal.Vehicle;
     aPlayer.onExitVehicleSeat.dispatch(aVehicle, seat);
     aVehicle.onExitVehicleSeat.dispatch(aPlayer, seat);
+    Portal.Game.onAnyPlayerExitVehicleSeat.dispatch(aPlayer, aVehicle, seat);
 }
 
 export function OnPlayerEnterVehicleSeat(player: mod.Player, vehicle: mod.Vehicle, seat: number) {
@@ -2939,37 +5683,46 @@ export function OnPlayerEnterVehicleSeat(player: mod.Player, vehicle: mod.Vehicl
     const aVehicle = Portal.GameObject.fromNative(vehicle) as Portal.Vehicle;
     aPlayer.onEnterVehicleSeat.dispatch(aVehicle, seat);
     aVehicle.onEnterVehicleSeat.dispatch(aPlayer, seat);
+    Portal.Game.onAnyPlayerEnterVehicleSeat.dispatch(aPlayer, aVehicle, seat);
 }
 export function OnPlayerSwitchTeam(player: mod.Player, team: mod.Team) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     const aTeam = Portal.Team.fromNative(team);
     aPlayer.onSwitchTeam.dispatch(aTeam);
     aTeam.onPlayerSwitchIn.dispatch(aPlayer);
+    Portal.Game.onAnyPlayerSwitchTeam.dispatch(aPlayer, aTeam);
+    Portal.Squad._releaseEmpty();
 }
 
 export function OnMCOMArmed(eventMCOM: mod.MCOM) {
     const mcom = Portal.MCOM.fromNative(eventMCOM);
     mcom.onArmed.dispatch();
+    Portal.Game.onAnyMCOMArmed.dispatch(mcom);
 }
 
 export function OnMCOMDefused(eventMCOM: mod.MCOM) {
     const mcom = Portal.MCOM.fromNative(eventMCOM);
     mcom.onDefused.dispatch();
+    Portal.Game.onAnyMCOMDefused.dispatch(mcom);
 }
 
 export function OnMCOMDestroyed(eventMCOM: mod.MCOM) {
     const mcom = Portal.MCOM.fromNative(eventMCOM);
     mcom.onDestroyed.dispatch();
+    Portal.Game.onAnyMCOMDestroyed.dispatch(mcom);
 }
 
 export function OnPlayerUndeploy(player: mod.Player) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     aPlayer.onUndeploy.dispatch();
+    Portal.Game.onAnyPlayerUndeploy.dispatch(aPlayer);
 }
 
 export function OnPlayerDeployed(eventPlayer: mod.Player) {
     const aPlayer = Portal.GameObject.fromNative(eventPlayer) as Portal.Player;
+    aPlayer._refreshHealth();
     aPlayer.onDeployed.dispatch();
+    Portal.Game.onAnyPlayerDeployed.dispatch(aPlayer);
 }
 
 export function OnPlayerEnterAreaTrigger(eventPlayer: mod.Player, eventAreaTrigger: mod.AreaTrigger) {
@@ -2977,12 +5730,15 @@ export function OnPlayerEnterAreaTrigger(eventPlayer: mod.Player, eventAreaTrigg
     const areaTrigger = Portal.AreaTrigger.fromNative(eventAreaTrigger);
     player.onEnterAreaTrigger.dispatch(areaTrigger);
     areaTrigger.onPlayerEnter.dispatch(player);
+    Portal.Game.onAnyPlayerEnterAreaTrigger.dispatch(player, areaTrigger);
 }
 
 export function OnRevived(player: mod.Player, reviver: mod.Player) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     const aReviver = Portal.GameObject.fromNative(reviver) as Portal.Player;
+    aPlayer._refreshHealth();
     aPlayer.onRevived.dispatch(aReviver);
+    Portal.Game.onAnyPlayerRevived.dispatch(aPlayer, aReviver);
 }
 
 export function OnPlayerExitAreaTrigger(eventPlayer: mod.Player, eventAreaTrigger: mod.AreaTrigger) {
@@ -2990,10 +5746,12 @@ export function OnPlayerExitAreaTrigger(eventPlayer: mod.Player, eventAreaTrigge
     const areaTrigger = Portal.AreaTrigger.fromNative(eventAreaTrigger);
     player.onExitAreaTrigger.dispatch(areaTrigger);
     areaTrigger.onPlayerExit.dispatch(player);
+    Portal.Game.onAnyPlayerExitAreaTrigger.dispatch(player, areaTrigger);
 }
 export function OnRingOfFireZoneSizeChange(ringOfFire: mod.RingOfFire, eventNumber: number) {
     const aRingOfFire = Portal.GameObject.fromNative(ringOfFire) as Portal.RingOfFire;
     aRingOfFire.onZoneSizeChanged.dispatch(eventNumber);
+    Portal.Game.onAnyRingOfFireZoneSizeChanged.dispatch(aRingOfFire, eventNumber);
 }
 
 export function OnPlayerInteract(eventPlayer: mod.Player, eventInteractPoint: mod.InteractPoint) {
@@ -3001,6 +5759,7 @@ export function OnPlayerInteract(eventPlayer: mod.Player, eventInteractPoint: mo
     const interactPoint = Portal.InteractPoint.fromNative(eventInteractPoint);
     player.onInteract.dispatch(interactPoint);
     interactPoint.onPlayerInteract.dispatch(player);
+    Portal.Game.onAnyPlayerInteract.dispatch(player, interactPoint);
 }
 
 export function OnGameModeStarted() {
@@ -3008,7 +5767,8 @@ export function OnGameModeStarted() {
 }
 
 export function OnGameModeEnding() {
-    Portal.Game.onGameModeEnding.dispatch();
+    // Handlers run in order so ending logic (e.g. saving stats) is done before the next one starts.
+    return Portal.Game.onGameModeEnding.dispatchAsync('sequential');
 }
 
 export function OnTimeLimitReached() {
@@ -3023,12 +5783,17 @@ export function OnPlayerJoinGame(player: mod.Player) {
 export function OnPlayerLeaveGame(playerId: number) {
     Portal.Game.onPlayerLeft.dispatch(playerId);
     Portal.GameObject.removeInstance(playerId);
+    Portal.CombatLog._handlePlayerLeft(playerId);
+    Portal.PlayerStats._handlePlayerLeft(playerId);
+    Portal.Squad._releaseEmpty();
 }
 
 export function OnPlayerEarnedKill(player: mod.Player, victim: mod.Player, deathType: mod.DeathType, weapon: mod.WeaponUnlock) {
     const aPlayer = Portal.GameObject.fromNative(player) as Portal.Player;
     const aVictim = Portal.GameObject.fromNative(victim) as Portal.Player;
     aPlayer.onEarnedKill.dispatch(aVictim, deathType, weapon);
+    Portal.Game.onAnyPlayerEarnedKill.dispatch(aPlayer, aVictim, deathType, weapon);
+    Portal.KillStreaks._handleKill(aPlayer, aVictim);
 }
 
 export function OnAIParachuteSucceeded(player: mod.Player) {